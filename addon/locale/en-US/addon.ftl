@@ -4,6 +4,32 @@ menuitem-label = S3 Sync: Helper Examples
 menupopup-label = S3 Sync: Menupopup
 menuitem-submenulabel = S3 Sync
 menuitem-filemenulabel = S3 Sync: File Menuitem
+menuitem-copy-share-link = Copy S3 Share Link
+menuitem-cancel-sync-s3 = Cancel S3 Sync
+versions-title = S3 Versions
+versions-show = Show Versions
+versions-loading = Loading versions…
+versions-empty = This attachment has not been uploaded to S3
+versions-error = S3 versions: { $error }
+versions-latest = current
+versions-deleted = deleted
+versions-unversioned = Versioning is not enabled on this bucket, so earlier versions are not kept
+versions-save-copy = Save as Attachment
+versions-save-done = The version was saved as a new attachment
+versions-restore = Restore
+versions-restore-confirm = Replace the local file with the version from { $date }? The restored file is uploaded as the newest version on the next sync.
+versions-restore-done = The version was restored; sync to upload it
+wizard-title = S3 Connection Test
+wizard-not-configured = S3 is not configured. Please fill in all required fields.
+wizard-running = Checking the bucket and permissions…
+wizard-create-bucket = The bucket "{ $bucket }" does not exist. Create it in { $region }?
+wizard-passed = All checks passed.
+wizard-failed = { $count ->
+    [one] 1 check failed.
+   *[other] { $count } checks failed.
+}
+wizard-copy-report = Copy Report
+wizard-close = Close
 prefs-title = S3 Sync
 prefs-table-title = Title
 prefs-table-detail = Detail
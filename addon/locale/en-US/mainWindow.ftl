@@ -1,5 +1,9 @@
 menuitem-sync-s3 = Sync to S3
 menuitem-s3-settings = S3 Sync Settings
+item-section-s3-versions-head-text =
+    .label = S3 Versions
+item-section-s3-versions-sidenav-tooltip =
+    .tooltiptext = S3 Versions
 
 item-section-example1-head-text =
     .label = Plugin Template: Item Info
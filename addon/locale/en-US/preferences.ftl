@@ -6,8 +6,26 @@ pref-s3-region = Region:
 pref-s3-bucket = Bucket Name:
 pref-s3-access-key = Access Key ID:
 pref-s3-secret-key = Secret Access Key:
+pref-s3-session-token = Session Token:
+pref-secret-saved = Saved in the login manager
+pref-secret-not-saved = Not saved
+pref-secret-set = Set…
+pref-secret-clear = Clear
+pref-s3-credential-source = Credential Source:
+pref-s3-aws-profile = AWS Profile:
+pref-s3-credential-file = Credentials File:
+pref-s3-credential-url = Credentials URL:
 pref-s3-prefix = File Prefix:
-pref-test-connection = Test Connection
+pref-s3-addressing-style = Addressing Style:
+pref-s3-sse-mode = Server-Side Encryption:
+pref-s3-sse-kms-key-id = KMS Key ID:
+pref-s3-sse-customer-key = SSE-C Key:
+pref-s3-storage-class = Storage Class:
+pref-s3-storage-class-rules = Storage Class Rules:
+pref-s3-restore-days = Archive Restore:
+pref-s3-object-tagging =
+    .label = Tag objects with item metadata (title, author, year, DOI, collections)
+pref-test-connection = Test Connection and Permissions…
 
 pref-sync-title = Sync Settings
 pref-auto-sync =
@@ -17,5 +35,25 @@ pref-incremental-sync =
     .label = Enable Incremental Sync
 pref-incremental-max-days = Incremental Sync Max Interval:
 pref-sync-concurrency = Concurrent Upload/Download:
+pref-upload-limit = Upload Limit:
+pref-download-limit = Download Limit:
+pref-limit-schedule = Limit Schedule:
+pref-scheduled-upload-limit = Scheduled Upload Limit:
+pref-scheduled-download-limit = Scheduled Download Limit:
+pref-client-encryption =
+    .label = Encrypt files before upload (client-side encryption)
+pref-encryption-passphrase = Encryption Passphrase:
+pref-compression = Compression:
+pref-compression-types = Compress File Types:
+pref-multipart-threshold = Multipart Upload Threshold:
+pref-multipart-part-size = Multipart Part Size:
+pref-retry-max-attempts = Max Attempts per Request:
+pref-retry-max-delay = Max Retry Delay:
+pref-connect-timeout = Connect Timeout:
+pref-idle-timeout = Idle Timeout:
+pref-conditional-writes =
+    .label = Use conditional writes for the sync records (If-Match)
+pref-share-link-expiry = Share Link Expiry:
+pref-payload-signing = Upload Payload Signing:
 
 pref-help = { $name } Build { $version } { $time }
\ No newline at end of file
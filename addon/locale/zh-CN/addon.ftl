@@ -4,6 +4,29 @@ menuitem-label = S3 同步: 帮助工具样例
 menupopup-label = S3 同步: 弹出菜单
 menuitem-submenulabel = S3 同步：子菜单
 menuitem-filemenulabel = S3 同步: 文件菜单
+menuitem-copy-share-link = 复制 S3 分享链接
+menuitem-cancel-sync-s3 = 取消 S3 同步
+versions-title = S3 版本
+versions-show = 显示版本
+versions-loading = 正在加载版本…
+versions-empty = 此附件尚未上传到 S3
+versions-error = S3 版本: { $error }
+versions-latest = 当前版本
+versions-deleted = 已删除
+versions-unversioned = 此存储桶未启用版本控制，不会保留历史版本
+versions-save-copy = 另存为附件
+versions-save-done = 已将该版本另存为新附件
+versions-restore = 恢复
+versions-restore-confirm = 用 { $date } 的版本替换本地文件？恢复的文件会在下次同步时作为最新版本上传。
+versions-restore-done = 已恢复该版本，同步后会上传到云端
+wizard-title = S3 连接测试
+wizard-not-configured = S3 尚未配置，请填写所有必填项。
+wizard-running = 正在检查存储桶和权限…
+wizard-create-bucket = 存储桶"{ $bucket }"不存在。是否在 { $region } 创建？
+wizard-passed = 所有检查均已通过。
+wizard-failed = { $count } 项检查未通过。
+wizard-copy-report = 复制报告
+wizard-close = 关闭
 prefs-title = S3 同步
 prefs-table-title = 标题
 prefs-table-detail = 详情
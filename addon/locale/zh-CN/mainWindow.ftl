@@ -1,5 +1,9 @@
 menuitem-sync-s3 = 同步到 S3
 menuitem-s3-settings = S3 同步设置
+item-section-s3-versions-head-text =
+    .label = S3 版本
+item-section-s3-versions-sidenav-tooltip =
+    .tooltiptext = S3 版本
 
 item-section-example1-head-text =
     .label = 插件模板: 条目信息
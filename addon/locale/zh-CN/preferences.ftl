@@ -6,8 +6,26 @@ pref-s3-region = 区域:
 pref-s3-bucket = 存储桶名称:
 pref-s3-access-key = 访问密钥 ID:
 pref-s3-secret-key = 秘密访问密钥:
+pref-s3-session-token = 会话令牌:
+pref-secret-saved = 已保存到登录管理器
+pref-secret-not-saved = 未保存
+pref-secret-set = 设置…
+pref-secret-clear = 清除
+pref-s3-credential-source = 凭证来源:
+pref-s3-aws-profile = AWS 配置文件:
+pref-s3-credential-file = 凭证文件:
+pref-s3-credential-url = 凭证接口地址:
 pref-s3-prefix = 文件前缀:
-pref-test-connection = 测试连接
+pref-s3-addressing-style = 寻址方式:
+pref-s3-sse-mode = 服务端加密:
+pref-s3-sse-kms-key-id = KMS 密钥 ID:
+pref-s3-sse-customer-key = SSE-C 密钥:
+pref-s3-storage-class = 存储类别:
+pref-s3-storage-class-rules = 存储类别规则:
+pref-s3-restore-days = 归档恢复:
+pref-s3-object-tagging =
+    .label = 为对象添加条目信息标签（标题、作者、年份、DOI、分类）
+pref-test-connection = 测试连接和权限…
 
 pref-sync-title = 同步设置
 pref-auto-sync =
@@ -17,5 +35,25 @@ pref-incremental-sync =
     .label = 启用增量同步
 pref-incremental-max-days = 增量同步最大间隔:
 pref-sync-concurrency = 并发上传/下载数:
+pref-upload-limit = 上传限速:
+pref-download-limit = 下载限速:
+pref-limit-schedule = 限速时段:
+pref-scheduled-upload-limit = 时段内上传限速:
+pref-scheduled-download-limit = 时段内下载限速:
+pref-client-encryption =
+    .label = 上传前加密文件（客户端加密）
+pref-encryption-passphrase = 加密密码:
+pref-compression = 压缩:
+pref-compression-types = 压缩的文件类型:
+pref-multipart-threshold = 分片上传阈值:
+pref-multipart-part-size = 分片大小:
+pref-retry-max-attempts = 单个请求最大尝试次数:
+pref-retry-max-delay = 最长重试间隔:
+pref-connect-timeout = 连接超时:
+pref-idle-timeout = 传输停滞超时:
+pref-conditional-writes =
+    .label = 使用条件写入更新同步记录（If-Match）
+pref-share-link-expiry = 分享链接有效期:
+pref-payload-signing = 上传正文签名方式:
 
 pref-help = { $name } Build { $version } { $time }
\ No newline at end of file
@@ -5,9 +5,29 @@ pref("input", "This is input");
 pref("s3.endpoint", "");
 pref("s3.region", "us-east-1");
 pref("s3.accessKeyId", "");
-pref("s3.secretAccessKey", "");
+pref("s3.secretAccessKey", ""); // Legacy, migrated to the login manager
+pref("s3.sessionToken", ""); // Legacy, migrated to the login manager
+pref("s3.credentialSource", "static"); // static | profile | file | http
+pref("s3.awsProfile", "default"); // Profile name for the "profile" source
+pref("s3.credentialFile", ""); // JSON credentials file for the "file" source
+pref("s3.credentialUrl", ""); // JSON credentials endpoint for the "http" source
 pref("s3.bucketName", "");
 pref("s3.prefix", "zotero-attachments");
+pref("s3.addressingStyle", "auto"); // auto | path | virtual
+pref("s3.sseMode", "none"); // none | AES256 | aws:kms | SSE-C
+pref("s3.sseKmsKeyId", ""); // Optional KMS key ID for aws:kms
+pref("s3.storageClass", ""); // Empty uses the bucket default, e.g. STANDARD_IA
+pref("s3.storageClassRules", ""); // e.g. "size>=50:STANDARD_IA, age>=365:GLACIER_IR"
+pref("s3.restoreDays", 7); // Days a restored archive copy stays available
+pref("s3.restoreTier", "Standard"); // Expedited | Standard | Bulk
+pref("s3.objectTagging", false); // Tag objects with item title, author, DOI, collections
+pref("s3.retryMaxAttempts", 4); // Attempts per request, including the first
+pref("s3.retryMaxDelay", 20); // Longest wait between retries in seconds
+pref("s3.connectTimeout", 30); // Seconds until a request must start moving data, 0 for none
+pref("s3.idleTimeout", 60); // Seconds a transfer may stall before it fails, 0 for none
+pref("s3.conditionalWrites", true); // Update the sync records with If-Match / If-None-Match
+pref("s3.payloadSigning", "auto"); // auto | signed | unsigned | streaming
+pref("s3.shareLinkExpiry", 24); // Share link validity in hours (at most 168)
 
 // Sync Settings
 pref("sync.autoSync", false);
@@ -16,3 +36,17 @@ pref("conflictResolution", "ask");
 pref("sync.incremental", true);
 pref("sync.incrementalMaxDays", 7);
 pref("sync.concurrency", 3); // Number of concurrent upload/download operations
+pref("sync.uploadLimit", 0); // Upload limit in KB/s shared by all transfers, 0 for none
+pref("sync.downloadLimit", 0); // Download limit in KB/s shared by all transfers, 0 for none
+pref("sync.limitSchedule", ""); // e.g. "mon-fri 09:00-18:00", empty for none
+pref("sync.scheduledUploadLimit", 0); // Upload limit in KB/s while the schedule applies
+pref("sync.scheduledDownloadLimit", 0); // Download limit in KB/s while the schedule applies
+pref("sync.clientEncryption", false); // Encrypt attachments and sync records before upload
+pref("sync.compression", "none"); // none | gzip | deflate
+// Extensions and MIME types to compress
+pref("sync.compressionTypes", "html,htm,txt,md,epub,tif,tiff,xml,json,text/*");
+
+// Large File Transfers
+pref("s3.multipartThreshold", 64); // Files at or above this size (MB) use multipart upload
+pref("s3.multipartPartSize", 8); // Multipart part size in MB (minimum 5)
+pref("s3.downloadChunkSize", 8); // Ranged download chunk size in MB
@@ -3,6 +3,7 @@ import { ColumnOptions, DialogHelper } from "zotero-plugin-toolkit";
 import hooks from "./hooks";
 import { createZToolkit } from "./utils/ztoolkit";
 import type { SyncManager } from "./modules/syncManager";
+import type { ObjectTagUpdater } from "./modules/objectTags";
 
 class Addon {
   public data: {
@@ -22,6 +23,7 @@ class Addon {
     };
     dialog?: DialogHelper;
     syncManager?: SyncManager;
+    objectTagUpdater?: ObjectTagUpdater;
     syncStatus?: {
       isSyncing: boolean;
       currentFile?: string;
@@ -1,8 +1,15 @@
 import { getString, initLocale } from "./utils/locale";
-import { registerPrefsScripts } from "./modules/preferenceScript";
+import {
+  clearSecret,
+  promptForSecret,
+  registerPrefsScripts,
+} from "./modules/preferenceScript";
 import { createZToolkit } from "./utils/ztoolkit";
 import { SyncManager } from "./modules/syncManager";
-import { S3Manager } from "./modules/s3Client";
+import { runConnectionWizard } from "./modules/connectionWizard";
+import { copyShareLink } from "./modules/shareLink";
+import { registerVersionHistorySection } from "./modules/versionHistory";
+import { ObjectTagUpdater } from "./modules/objectTags";
 import { config } from "../package.json";
 
 async function onStartup() {
@@ -17,6 +24,12 @@ async function onStartup() {
   // Register preferences pane
   registerPrefsPane();
 
+  // Register the S3 versions item pane section
+  registerVersionHistorySection();
+
+  // Watch item changes to keep S3 object tags current
+  registerNotifier();
+
   await Promise.all(
     Zotero.getMainWindows().map((win) => onMainWindowLoad(win)),
   );
@@ -57,6 +70,8 @@ async function onMainWindowUnload(win: Window): Promise<void> {
 }
 
 function onShutdown(): void {
+  addon.data.syncManager?.cancelSync();
+  addon.data.objectTagUpdater?.dispose();
   ztoolkit.unregisterAll();
   addon.data.dialog?.window?.close();
   // Remove addon object
@@ -76,6 +91,9 @@ async function onNotify(
 ) {
   // You can add your code to the corresponding notify type
   ztoolkit.log("notify", event, type, ids, extraData);
+  if (type === "item" || type === "collection-item") {
+    addon.data.objectTagUpdater?.onNotify(event, type, ids);
+  }
 }
 
 /**
@@ -89,7 +107,13 @@ async function onPrefsEvent(type: string, data: { [key: string]: any }) {
       registerPrefsScripts(data.window);
       break;
     case "testConnection":
-      await testS3Connection();
+      await runConnectionWizard(data.window);
+      break;
+    case "setSecret":
+      await promptForSecret(data.name);
+      break;
+    case "clearSecret":
+      clearSecret(data.name);
       break;
     default:
       return;
@@ -113,6 +137,30 @@ function registerPrefsPane() {
   ztoolkit.log("Preferences pane registered");
 }
 
+function registerNotifier() {
+  addon.data.objectTagUpdater = new ObjectTagUpdater();
+
+  const callback = {
+    notify: async (
+      event: string,
+      type: string,
+      ids: number[] | string[],
+      extraData: { [key: string]: any },
+    ) => {
+      if (!addon?.data.alive) {
+        Zotero.Notifier.unregisterObserver(notifierID);
+        return;
+      }
+      addon.hooks.onNotify(event, type, ids, extraData);
+    },
+  };
+
+  const notifierID = Zotero.Notifier.registerObserver(callback, [
+    "item",
+    "collection-item",
+  ]);
+}
+
 function registerS3SyncMenu() {
   ztoolkit.Menu.register("menuTools", {
     tag: "menuitem",
@@ -124,48 +172,21 @@ function registerS3SyncMenu() {
       }
     },
   });
-}
-
-async function testS3Connection() {
-  const s3Manager = new S3Manager();
-
-  if (!s3Manager.isConfigured()) {
-    new ztoolkit.ProgressWindow("S3 Connection Test", { closeOnClick: true })
-      .createLine({
-        text: "S3 not configured. Please fill in all required fields.",
-        type: "error",
-      })
-      .show(-1);
-    return;
-  }
 
-  const progressWindow = new ztoolkit.ProgressWindow("S3 Connection Test", {
-    closeOnClick: true,
-  })
-    .createLine({
-      text: "Testing connection...",
-      type: "default",
-      progress: 50,
-    })
-    .show();
-
-  const success = await s3Manager.testConnection();
-
-  if (success) {
-    progressWindow.changeLine({
-      text: "Connection successful!",
-      type: "success",
-      progress: 100,
-    });
-  } else {
-    progressWindow.changeLine({
-      text: "Connection failed. Please check your settings.",
-      type: "error",
-      progress: 0,
-    });
-  }
+  ztoolkit.Menu.register("menuTools", {
+    tag: "menuitem",
+    id: "zotero-s3sync-cancel-sync",
+    label: getString("menuitem-cancel-sync-s3"),
+    getVisibility: () => !!addon.data.syncManager?.isSyncRunning(),
+    commandListener: () => addon.data.syncManager?.cancelSync(),
+  });
 
-  progressWindow.startCloseTimer(3000);
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: "zotero-s3sync-copy-share-link",
+    label: getString("menuitem-copy-share-link"),
+    commandListener: () => copyShareLink(),
+  });
 }
 
 function registerS3SyncButton(win: _ZoteroTypes.MainWindow) {
@@ -216,8 +237,14 @@ function registerS3SyncButton(win: _ZoteroTypes.MainWindow) {
 
     button.addEventListener("command", async () => {
       if (addon.data.syncManager) {
-        button.setAttribute("tooltiptext", "S3 同步中...");
-        button.setAttribute("disabled", "true");
+        // A second click while syncing cancels the sync
+        if (addon.data.syncManager.isSyncRunning()) {
+          addon.data.syncManager.cancelSync();
+          button.setAttribute("tooltiptext", "正在取消 S3 同步...");
+          return;
+        }
+
+        button.setAttribute("tooltiptext", "S3 同步中...（点击取消）");
         button.setAttribute(
           "style",
           "list-style-image: url('chrome://zotero/skin/spinner-16px.png')",
@@ -226,7 +253,6 @@ function registerS3SyncButton(win: _ZoteroTypes.MainWindow) {
         await addon.data.syncManager.syncAttachments();
 
         button.setAttribute("tooltiptext", "S3 云同步");
-        button.removeAttribute("disabled");
         button.setAttribute(
           "style",
           `list-style-image: url('chrome://${config.addonRef}/content/icons/favicon.png')`,
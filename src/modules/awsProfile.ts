@@ -0,0 +1,139 @@
+/**
+ * AWS Profiles
+ * Reads named profiles from the AWS shared credentials and config files
+ */
+
+export interface AwsProfile {
+  name: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  region?: string;
+  endpointUrl?: string;
+}
+
+type IniSections = { [section: string]: { [key: string]: string } };
+
+/**
+ * Parse an AWS-style INI file.
+ * Indented lines below a key with an empty value are nested settings
+ * (e.g. "s3 =" followed by "  endpoint_url = ...") and are stored as
+ * "s3.endpoint_url".
+ */
+export function parseIni(text: string): IniSections {
+  const sections: IniSections = {};
+  let current: { [key: string]: string } | null = null;
+  let parentKey = "";
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+
+    const section = line.match(/^\[\s*(.+?)\s*\]$/);
+    if (section) {
+      current = sections[section[1]] = sections[section[1]] || {};
+      parentKey = "";
+      continue;
+    }
+
+    const eq = line.indexOf("=");
+    if (!current || eq === -1) {
+      continue;
+    }
+    const key = line.substring(0, eq).trim().toLowerCase();
+    const value = line.substring(eq + 1).trim();
+
+    if (/^\s/.test(rawLine) && parentKey) {
+      current[`${parentKey}.${key}`] = value;
+    } else {
+      current[key] = value;
+      parentKey = value ? "" : key;
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Paths of the shared credentials and config files, honouring the
+ * AWS_SHARED_CREDENTIALS_FILE and AWS_CONFIG_FILE overrides
+ */
+export function getAwsFilePaths(): { credentials: string; config: string } {
+  const home = Services.dirsvc.get("Home", Components.interfaces.nsIFile).path;
+  const awsDir = PathUtils.join(home, ".aws");
+  return {
+    credentials:
+      Services.env.get("AWS_SHARED_CREDENTIALS_FILE") ||
+      PathUtils.join(awsDir, "credentials"),
+    config:
+      Services.env.get("AWS_CONFIG_FILE") || PathUtils.join(awsDir, "config"),
+  };
+}
+
+async function readIniFile(path: string): Promise<IniSections> {
+  try {
+    if (!(await IOUtils.exists(path))) {
+      return {};
+    }
+    return parseIni(await IOUtils.readUTF8(path));
+  } catch (error) {
+    ztoolkit.log(`Error reading AWS file ${path}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Read both files. Config sections are named "profile <name>" except for
+ * "default"; credentials sections use the bare profile name.
+ */
+async function readProfiles(): Promise<{
+  credentials: IniSections;
+  config: IniSections;
+}> {
+  const paths = getAwsFilePaths();
+  const [credentials, configSections] = await Promise.all([
+    readIniFile(paths.credentials),
+    readIniFile(paths.config),
+  ]);
+  const config: IniSections = {};
+  for (const [section, values] of Object.entries(configSections)) {
+    const name = section.replace(/^profile\s+/, "");
+    config[name] = { ...config[name], ...values };
+  }
+  return { credentials, config };
+}
+
+/**
+ * Names of all profiles found in either file, "default" first
+ */
+export async function listAwsProfiles(): Promise<string[]> {
+  const { credentials, config } = await readProfiles();
+  const names = new Set([...Object.keys(credentials), ...Object.keys(config)]);
+  return Array.from(names).sort((a, b) =>
+    a === "default" ? -1 : b === "default" ? 1 : a.localeCompare(b),
+  );
+}
+
+/**
+ * Load one profile; the credentials file wins over the config file for
+ * keys present in both. Returns null when the profile does not exist.
+ */
+export async function loadAwsProfile(name: string): Promise<AwsProfile | null> {
+  const { credentials, config } = await readProfiles();
+  if (!credentials[name] && !config[name]) {
+    ztoolkit.log(`AWS profile not found: ${name}`);
+    return null;
+  }
+
+  const values = { ...config[name], ...credentials[name] };
+  return {
+    name,
+    accessKeyId: values["aws_access_key_id"],
+    secretAccessKey: values["aws_secret_access_key"],
+    sessionToken: values["aws_session_token"],
+    region: values["region"],
+    endpointUrl: values["s3.endpoint_url"] || values["endpoint_url"],
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Bandwidth Limiter
+ * Caps upload and download rates with token buckets shared by every
+ * transfer of an S3Manager, with optional different limits during a
+ * schedule (e.g. work hours)
+ */
+
+import { getPref } from "../utils/prefs";
+
+export type TransferDirection = "upload" | "download";
+
+interface LimitSchedule {
+  days: Set<number>; // 0 = Sunday
+  start: number; // Minutes after midnight
+  end: number; // Minutes after midnight; before start for overnight windows
+}
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const KB = 1024;
+const MIN_CHUNK_SIZE = 64 * KB;
+
+/**
+ * Token bucket that lets a transfer run into debt: a request larger than
+ * the bucket is sent right away once the earlier debt is paid off, and the
+ * next caller waits until the bucket refills past it. Averaged over a few
+ * requests the rate never exceeds the limit.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updated = Date.now();
+
+  constructor(private rate: number) {
+    this.tokens = rate;
+  }
+
+  /**
+   * Change the rate (bytes per second), keeping any outstanding debt
+   */
+  public setRate(rate: number): void {
+    if (rate !== this.rate) {
+      this.refill();
+      this.rate = rate;
+      this.tokens = Math.min(this.tokens, rate);
+    }
+  }
+
+  /**
+   * Take bytes from the bucket, waiting until they are paid for.
+   * Resolves early when the signal aborts; the caller checks it.
+   */
+  public async consume(bytes: number, signal?: AbortSignal): Promise<void> {
+    this.refill();
+    const wait = this.tokens < 0 ? (-this.tokens / this.rate) * 1000 : 0;
+    this.tokens -= bytes;
+    if (wait > 0) {
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Give back bytes that were taken but never sent, e.g. by a request that
+   * failed before its body went out
+   */
+  public refund(bytes: number): void {
+    this.refill();
+    this.tokens = Math.min(this.rate, this.tokens + bytes);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.rate,
+      this.tokens + ((now - this.updated) / 1000) * this.rate,
+    );
+    this.updated = now;
+  }
+}
+
+export class BandwidthLimiter {
+  private buckets = new Map<TransferDirection, TokenBucket>();
+
+  /**
+   * Current limit in bytes per second, 0 for unlimited.
+   * Read from the prefs on every call so changes and schedule boundaries
+   * apply to transfers already running.
+   */
+  public getRate(direction: TransferDirection, now = new Date()): number {
+    const schedule = parseSchedule(
+      (getPref("sync.limitSchedule") as string) || "",
+    );
+    const scheduled = schedule && isInSchedule(schedule, now);
+    const limit = Number(
+      direction === "upload"
+        ? getPref(scheduled ? "sync.scheduledUploadLimit" : "sync.uploadLimit")
+        : getPref(
+            scheduled ? "sync.scheduledDownloadLimit" : "sync.downloadLimit",
+          ),
+    );
+    return Number.isFinite(limit) && limit > 0 ? limit * KB : 0;
+  }
+
+  public isLimited(direction: TransferDirection): boolean {
+    return this.getRate(direction) > 0;
+  }
+
+  /**
+   * Pace a transfer of the given size against the direction's limit.
+   * Tokens are taken about one second of the limit at a time, so a large
+   * body waits for all but its last second before it goes out, and
+   * concurrent transfers take turns instead of one part's debt holding up
+   * the others.
+   */
+  public async throttle(
+    direction: TransferDirection,
+    bytes: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const rate = this.getRate(direction);
+    if (!rate || bytes <= 0) {
+      return;
+    }
+
+    let bucket = this.buckets.get(direction);
+    if (!bucket) {
+      bucket = new TokenBucket(rate);
+      this.buckets.set(direction, bucket);
+    }
+    bucket.setRate(rate);
+    const slice = Math.max(1, Math.floor(rate));
+    for (
+      let remaining = bytes;
+      remaining > 0 && !signal?.aborted;
+      remaining -= slice
+    ) {
+      await bucket.consume(Math.min(slice, remaining), signal);
+    }
+  }
+
+  /**
+   * Return the unsent part of a throttled transfer to the direction's bucket
+   */
+  public refund(direction: TransferDirection, bytes: number): void {
+    if (bytes > 0) {
+      this.buckets.get(direction)?.refund(bytes);
+    }
+  }
+
+  /**
+   * Shrink a chunk size to about one second of the limit, so a limited
+   * download is paced in small steps instead of long bursts
+   */
+  public getChunkSize(direction: TransferDirection, chunkSize: number): number {
+    const rate = this.getRate(direction);
+    return rate
+      ? Math.min(chunkSize, Math.max(MIN_CHUNK_SIZE, Math.floor(rate)))
+      : chunkSize;
+  }
+}
+
+/**
+ * Parse a schedule such as "mon-fri 09:00-18:00", "sat,sun 10:00-16:00" or
+ * "22:00-06:00" (every day, overnight). Returns null when empty or invalid.
+ */
+export function parseSchedule(value: string): LimitSchedule | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(?:([a-z,\s-]+?)\s+)?(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, dayPart, startH, startM, endH, endM] = match;
+  const start = Number(startH) * 60 + Number(startM);
+  const end = Number(endH) * 60 + Number(endM);
+  if (start >= 24 * 60 || end > 24 * 60 || start === end) {
+    return null;
+  }
+
+  const days = new Set<number>();
+  if (!dayPart) {
+    DAY_NAMES.forEach((_, day) => days.add(day));
+  } else {
+    for (const range of dayPart.split(",")) {
+      const [from, to] = range.split("-").map((name) => name.trim());
+      const first = DAY_NAMES.indexOf(from);
+      const last = DAY_NAMES.indexOf(to ?? from);
+      if (first < 0 || last < 0) {
+        return null;
+      }
+      // Ranges may wrap around the week, e.g. "fri-mon"
+      for (let day = first; ; day = (day + 1) % 7) {
+        days.add(day);
+        if (day === last) {
+          break;
+        }
+      }
+    }
+  }
+  return { days, start, end };
+}
+
+function isInSchedule(schedule: LimitSchedule, now: Date): boolean {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  if (schedule.start < schedule.end) {
+    return (
+      schedule.days.has(now.getDay()) &&
+      minutes >= schedule.start &&
+      minutes < schedule.end
+    );
+  }
+  // Overnight windows belong to the day they start on
+  if (minutes >= schedule.start) {
+    return schedule.days.has(now.getDay());
+  }
+  return minutes < schedule.end && schedule.days.has((now.getDay() + 6) % 7);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,437 @@
+/**
+ * Client-Side Encryption
+ * Encrypts attachments and the sync manifest before they leave this machine
+ *
+ * File format (all integers big-endian):
+ *   header:   "S3SE" | version (1) | salt (16) | nonce prefix (8) | segment size (4)
+ *   segments: AES-256-GCM ciphertext + 16-byte tag of each plaintext segment
+ *
+ * Each file gets its own key, derived with HKDF from the passphrase key and
+ * the header salt. Segment nonces are the nonce prefix followed by the
+ * segment index, and the header, index and a last-segment flag are bound as
+ * additional data so segments cannot be reordered, dropped or truncated.
+ */
+
+import { sha256File } from "../utils/hash";
+import { S3Error, S3ErrorDetails } from "./s3Errors";
+
+export interface EncryptionKeyCheck {
+  version: number;
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // Base64 PBKDF2 salt
+  verifier: string; // Base64 nonce + AES-GCM ciphertext of VERIFIER_TEXT
+}
+
+export class ClientEncryptionError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "ClientEncryptionError";
+  }
+
+  public get hint(): string {
+    return this.code === "WrongPassphrase"
+      ? "The passphrase does not match the one this bucket was encrypted with."
+      : "Check the client-side encryption settings.";
+  }
+}
+
+const MAGIC = [0x53, 0x33, 0x53, 0x45]; // "S3SE"
+const FORMAT_VERSION = 1;
+const SALT_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 8;
+const HEADER_LENGTH = MAGIC.length + 1 + SALT_LENGTH + NONCE_PREFIX_LENGTH + 4;
+const TAG_LENGTH = 16;
+const SEGMENT_SIZE = 1024 * 1024;
+const PBKDF2_ITERATIONS = 600000;
+const VERIFIER_TEXT = "zotero-s3sync";
+
+type ReadAt = (offset: number, length: number) => Promise<Uint8Array>;
+type Write = (chunk: Uint8Array) => Promise<void>;
+
+export class ClientEncryption {
+  public static readonly KEY_CHECK_FILE = ".zotero-sync-encryption.json";
+
+  private constructor(
+    private masterKey: CryptoKey, // HKDF base key derived from the passphrase
+    private nonceKey: CryptoKey, // HMAC key for deterministic file salts
+  ) {}
+
+  /**
+   * Derive the keys for a new bucket and the key check to store with it
+   */
+  public static async create(
+    passphrase: string,
+  ): Promise<{ encryption: ClientEncryption; keyCheck: EncryptionKeyCheck }> {
+    const salt = randomBytes(SALT_LENGTH);
+    const encryption = await ClientEncryption.derive(
+      passphrase,
+      salt,
+      PBKDF2_ITERATIONS,
+    );
+
+    const nonce = randomBytes(12);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: nonce },
+      await encryption.deriveAesKey(new Uint8Array(0), "verifier"),
+      new TextEncoder().encode(VERIFIER_TEXT),
+    );
+
+    return {
+      encryption,
+      keyCheck: {
+        version: FORMAT_VERSION,
+        kdf: "PBKDF2-SHA256",
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        verifier: toBase64(concat([nonce, new Uint8Array(ciphertext)])),
+      },
+    };
+  }
+
+  /**
+   * Derive the keys for an existing bucket, rejecting a wrong passphrase
+   * before anything is decrypted
+   */
+  public static async unlock(
+    passphrase: string,
+    keyCheck: EncryptionKeyCheck,
+  ): Promise<ClientEncryption> {
+    if (keyCheck.version !== FORMAT_VERSION) {
+      throw new ClientEncryptionError(
+        `Unsupported encryption format version ${keyCheck.version}`,
+        { code: "UnsupportedEncryption", status: 0 },
+      );
+    }
+
+    const encryption = await ClientEncryption.derive(
+      passphrase,
+      fromBase64(keyCheck.salt),
+      keyCheck.iterations,
+    );
+    const verifier = fromBase64(keyCheck.verifier);
+    try {
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: verifier.subarray(0, 12) },
+        await encryption.deriveAesKey(new Uint8Array(0), "verifier"),
+        verifier.subarray(12),
+      );
+    } catch (error) {
+      throw new ClientEncryptionError("Wrong encryption passphrase", {
+        code: "WrongPassphrase",
+        status: 0,
+      });
+    }
+    return encryption;
+  }
+
+  private static async derive(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number,
+  ): Promise<ClientEncryption> {
+    const passphraseKey = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveBits"],
+    );
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      passphraseKey,
+      256,
+    );
+
+    const masterKey = await crypto.subtle.importKey(
+      "raw",
+      bits,
+      "HKDF",
+      false,
+      ["deriveKey", "deriveBits"],
+    );
+    const nonceBits = await crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode("zotero-s3sync nonce v1"),
+      },
+      masterKey,
+      256,
+    );
+    const nonceKey = await crypto.subtle.importKey(
+      "raw",
+      nonceBits,
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    return new ClientEncryption(masterKey, nonceKey);
+  }
+
+  private deriveAesKey(salt: Uint8Array, purpose: string): Promise<CryptoKey> {
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode(`zotero-s3sync ${purpose} v1`),
+      },
+      this.masterKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+
+  /**
+   * Whether data starts with the encrypted file header
+   */
+  public static isEncrypted(bytes: Uint8Array): boolean {
+    return (
+      bytes.length >= HEADER_LENGTH &&
+      MAGIC.every((byte, i) => bytes[i] === byte) &&
+      bytes[MAGIC.length] === FORMAT_VERSION
+    );
+  }
+
+  public static async isEncryptedFile(path: string): Promise<boolean> {
+    const bytes = await IOUtils.read(path, { maxBytes: HEADER_LENGTH });
+    return ClientEncryption.isEncrypted(bytes);
+  }
+
+  /**
+   * Encrypt a file into dest.
+   * With a seed (e.g. the S3 key) the salt and nonces are derived from it
+   * and the SHA-256 of the file, so the same plaintext always encrypts to
+   * the same bytes and an interrupted multipart upload of it can resume,
+   * while different content never shares a key and nonce.
+   */
+  public async encryptFile(
+    src: string,
+    dest: string,
+    seed?: string,
+  ): Promise<void> {
+    const size = (await IOUtils.stat(src)).size ?? 0;
+    await IOUtils.remove(dest, { ignoreAbsent: true });
+    await this.encrypt(
+      size,
+      (offset, length) => readAt(src, offset, length),
+      async (chunk) => {
+        await IOUtils.write(dest, chunk, { mode: "appendOrCreate" });
+      },
+      seed
+        ? concat([new TextEncoder().encode(`${seed}\n`), sha256File(src)])
+        : undefined,
+    );
+  }
+
+  /**
+   * Decrypt a file into dest. Throws on a wrong key or any tampering; dest
+   * is only complete once this resolves, so callers should write to a
+   * temporary path and move it into place afterwards.
+   */
+  public async decryptFile(src: string, dest: string): Promise<void> {
+    const size = (await IOUtils.stat(src)).size ?? 0;
+    await IOUtils.remove(dest, { ignoreAbsent: true });
+    await this.decrypt(
+      size,
+      (offset, length) => readAt(src, offset, length),
+      async (chunk) => {
+        await IOUtils.write(dest, chunk, { mode: "appendOrCreate" });
+      },
+    );
+  }
+
+  public async encryptBytes(data: Uint8Array): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    await this.encrypt(
+      data.length,
+      async (offset, length) => data.subarray(offset, offset + length),
+      async (chunk) => {
+        chunks.push(chunk);
+      },
+    );
+    return concat(chunks);
+  }
+
+  public async decryptBytes(data: Uint8Array): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    await this.decrypt(
+      data.length,
+      async (offset, length) => data.subarray(offset, offset + length),
+      async (chunk) => {
+        chunks.push(chunk);
+      },
+    );
+    return concat(chunks);
+  }
+
+  private async encrypt(
+    size: number,
+    read: ReadAt,
+    write: Write,
+    seed?: Uint8Array,
+  ): Promise<void> {
+    let salt: Uint8Array;
+    let noncePrefix: Uint8Array;
+    if (seed) {
+      const digest = new Uint8Array(
+        await crypto.subtle.sign("HMAC", this.nonceKey, seed),
+      );
+      salt = digest.slice(0, SALT_LENGTH);
+      noncePrefix = digest.slice(
+        SALT_LENGTH,
+        SALT_LENGTH + NONCE_PREFIX_LENGTH,
+      );
+    } else {
+      salt = randomBytes(SALT_LENGTH);
+      noncePrefix = randomBytes(NONCE_PREFIX_LENGTH);
+    }
+
+    const header = new Uint8Array(HEADER_LENGTH);
+    header.set(MAGIC, 0);
+    header[MAGIC.length] = FORMAT_VERSION;
+    header.set(salt, MAGIC.length + 1);
+    header.set(noncePrefix, MAGIC.length + 1 + SALT_LENGTH);
+    new DataView(header.buffer).setUint32(HEADER_LENGTH - 4, SEGMENT_SIZE);
+    await write(header);
+
+    const key = await this.deriveAesKey(salt, "file");
+    // An empty file still gets one (empty) final segment
+    const segments = Math.max(1, Math.ceil(size / SEGMENT_SIZE));
+    for (let index = 0; index < segments; index++) {
+      const offset = index * SEGMENT_SIZE;
+      const plaintext = await read(
+        offset,
+        Math.min(SEGMENT_SIZE, size - offset),
+      );
+      const isLast = index === segments - 1;
+      const ciphertext = await crypto.subtle.encrypt(
+        {
+          name: "AES-GCM",
+          iv: segmentNonce(noncePrefix, index),
+          additionalData: segmentAad(header, index, isLast),
+        },
+        key,
+        plaintext,
+      );
+      await write(new Uint8Array(ciphertext));
+    }
+  }
+
+  private async decrypt(
+    size: number,
+    read: ReadAt,
+    write: Write,
+  ): Promise<void> {
+    const header = await read(0, HEADER_LENGTH);
+    if (!ClientEncryption.isEncrypted(header)) {
+      throw new ClientEncryptionError("Data is not client-side encrypted", {
+        code: "NotEncrypted",
+        status: 0,
+      });
+    }
+
+    const salt = header.slice(MAGIC.length + 1, MAGIC.length + 1 + SALT_LENGTH);
+    const noncePrefix = header.slice(
+      MAGIC.length + 1 + SALT_LENGTH,
+      HEADER_LENGTH - 4,
+    );
+    const segmentSize = new DataView(
+      header.buffer,
+      header.byteOffset,
+      header.byteLength,
+    ).getUint32(HEADER_LENGTH - 4);
+    const key = await this.deriveAesKey(salt, "file");
+
+    let offset = HEADER_LENGTH;
+    let index = 0;
+    do {
+      const length = Math.min(segmentSize + TAG_LENGTH, size - offset);
+      const isLast = offset + length >= size;
+      const ciphertext = await read(offset, length);
+
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: segmentNonce(noncePrefix, index),
+            additionalData: segmentAad(header, index, isLast),
+          },
+          key,
+          ciphertext,
+        );
+      } catch (error) {
+        throw new ClientEncryptionError(
+          "Decryption failed; the data is corrupted or was encrypted with another passphrase",
+          { code: "DecryptionFailed", status: 0 },
+        );
+      }
+      await write(new Uint8Array(plaintext));
+
+      offset += length;
+      index++;
+    } while (offset < size);
+  }
+}
+
+function readAt(
+  path: string,
+  offset: number,
+  length: number,
+): Promise<Uint8Array> {
+  // IOUtils rejects a zero maxBytes; empty files still need a final segment
+  return length > 0
+    ? IOUtils.read(path, { offset, maxBytes: length })
+    : Promise.resolve(new Uint8Array(0));
+}
+
+// Gecko types getRandomValues as returning a plain ArrayBufferView
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+function segmentNonce(prefix: Uint8Array, index: number): Uint8Array {
+  const nonce = new Uint8Array(12);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(8, index);
+  return nonce;
+}
+
+function segmentAad(
+  header: Uint8Array,
+  index: number,
+  isLast: boolean,
+): Uint8Array {
+  const aad = new Uint8Array(header.length + 5);
+  aad.set(header, 0);
+  const view = new DataView(aad.buffer);
+  view.setUint32(header.length, index);
+  view.setUint8(header.length + 4, isLast ? 1 : 0);
+  return aad;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
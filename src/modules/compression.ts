@@ -0,0 +1,129 @@
+/**
+ * Compression
+ * Optional gzip/deflate compression of attachments before upload
+ */
+
+import { getPref } from "../utils/prefs";
+
+export type CompressionFormat = "gzip" | "deflate";
+
+// Object metadata marker, sent as x-amz-meta-s3sync-compression
+export const COMPRESSION_METADATA_KEY = "s3sync-compression";
+
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Compression to use for a file, or null to upload it as-is.
+ * The sync.compressionTypes pref lists extensions ("html") and MIME types
+ * ("text/*") that are worth compressing.
+ */
+export function getCompressionFormat(
+  filePath: string,
+  contentType?: string,
+): CompressionFormat | null {
+  const format = getPref("sync.compression") as string;
+  if (format !== "gzip" && format !== "deflate") {
+    return null;
+  }
+
+  const extension = (filePath.match(/\.([^./\\]+)$/)?.[1] || "").toLowerCase();
+  const mimeType = (contentType || "").toLowerCase();
+  const types = ((getPref("sync.compressionTypes") as string) || "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase().replace(/^\./, ""))
+    .filter(Boolean);
+
+  const matches = types.some((type) => {
+    if (!type.includes("/")) {
+      return type === extension;
+    }
+    return type.endsWith("/*")
+      ? mimeType.startsWith(type.slice(0, -1))
+      : type === mimeType;
+  });
+  return matches ? format : null;
+}
+
+/**
+ * Read the compression marker from object metadata
+ */
+export function parseCompressionFormat(
+  value: string | null | undefined,
+): CompressionFormat | undefined {
+  return value === "gzip" || value === "deflate" ? value : undefined;
+}
+
+export function compressFile(
+  src: string,
+  dest: string,
+  format: CompressionFormat,
+): Promise<void> {
+  return transformFile(src, dest, new CompressionStream(format));
+}
+
+export function decompressFile(
+  src: string,
+  dest: string,
+  format: CompressionFormat,
+): Promise<void> {
+  return transformFile(src, dest, new DecompressionStream(format));
+}
+
+export async function decompressBytes(
+  data: Uint8Array,
+  format: CompressionFormat,
+): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Stream a file through a (de)compression transform chunk by chunk, so
+ * large scans are never held in memory
+ */
+async function transformFile(
+  src: string,
+  dest: string,
+  transform: CompressionStream | DecompressionStream,
+): Promise<void> {
+  const size = (await IOUtils.stat(src)).size ?? 0;
+  await IOUtils.remove(dest, { ignoreAbsent: true });
+  await IOUtils.write(dest, new Uint8Array(0));
+
+  const writer = transform.writable.getWriter();
+  // Gecko types getReader() with the BYOB overload and its reader as non-generic
+  const reader = transform.readable.getReader() as ReadableStreamDefaultReader;
+
+  const feed = async () => {
+    for (let offset = 0; offset < size; offset += CHUNK_SIZE) {
+      const chunk = await IOUtils.read(src, {
+        offset,
+        maxBytes: Math.min(CHUNK_SIZE, size - offset),
+      });
+      await writer.write(chunk);
+    }
+    await writer.close();
+  };
+
+  const drain = async () => {
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        await IOUtils.write(dest, value as Uint8Array, {
+          mode: "appendOrCreate",
+        });
+      }
+    } catch (error) {
+      // Otherwise feed() waits forever on a stream nobody reads
+      await writer.abort(error).catch(() => undefined);
+      throw error;
+    }
+  };
+
+  await Promise.all([feed(), drain()]);
+}
@@ -0,0 +1,430 @@
+/**
+ * Connection Wizard
+ * Checks the bucket setup and every permission a sync needs with a test
+ * object under the prefix, offers to create a missing bucket and ends with
+ * a pass/fail report that can be pasted into support tickets
+ */
+
+import { version } from "../../package.json";
+import { getString } from "../utils/locale";
+import { getPref } from "../utils/prefs";
+import { S3Manager } from "./s3Client";
+import {
+  S3AbortError,
+  S3AccessDeniedError,
+  S3Error,
+  describeError,
+  isNotImplemented,
+} from "./s3Errors";
+import {
+  ProviderCapabilities,
+  describeCapabilities,
+} from "./providerCapabilities";
+
+export type PermissionCheckStatus = "pass" | "fail" | "skip";
+
+export interface PermissionCheck {
+  name: string; // What was tried, e.g. "Upload object"
+  permission: string; // IAM action it needs, e.g. "s3:PutObject"
+  status: PermissionCheckStatus;
+  detail: string; // Result or error description
+}
+
+export interface ConnectionWizardOptions {
+  confirmCreateBucket: (bucket: string, region: string) => boolean;
+  onCheck?: (check: PermissionCheck) => void; // Called as each check finishes
+}
+
+// Errors S3 answers when the request is signed for the wrong region
+const WRONG_REGION_CODES = [
+  "AuthorizationHeaderMalformed",
+  "PermanentRedirect",
+  "IllegalLocationConstraintException",
+];
+const PROBE_CONTENT = "s3sync permission check";
+
+export class ConnectionWizard {
+  public readonly checks: PermissionCheck[] = [];
+  private capabilities: ProviderCapabilities | null = null;
+  private capabilityError = "";
+  private readonly probeKey: string;
+
+  constructor(
+    private s3Manager: S3Manager,
+    private prefix: string,
+    private options: ConnectionWizardOptions,
+  ) {
+    this.probeKey = prefix
+      ? `${prefix}/${S3Manager.PROBE_OBJECT}`
+      : S3Manager.PROBE_OBJECT;
+  }
+
+  /**
+   * Run every check in order. Checks that depend on an earlier one (the
+   * bucket, the uploaded test object) are skipped when it failed.
+   * Rejects only when cancelled.
+   */
+  public async run(signal?: AbortSignal): Promise<PermissionCheck[]> {
+    const bucketReady = await this.checkBucket(signal);
+    if (!bucketReady) {
+      this.skip("List objects", "s3:ListBucket", "The bucket is not available");
+      this.skip("Upload object", "s3:PutObject", "The bucket is not available");
+      this.skipObjectChecks("The bucket is not available");
+      return this.checks;
+    }
+
+    const listed = await this.check(
+      "List objects",
+      "s3:ListBucket",
+      async () => {
+        await this.s3Manager.testConnection(this.prefix, signal);
+        return `prefix "${this.prefix}/"`;
+      },
+    );
+
+    const written = await this.check(
+      "Upload object",
+      "s3:PutObject",
+      async () => {
+        await this.s3Manager.uploadFile(
+          new Blob([PROBE_CONTENT], { type: "text/plain" }),
+          this.probeKey,
+          { signal },
+        );
+        return this.probeKey;
+      },
+    );
+    if (!written) {
+      this.skipObjectChecks("The test object could not be uploaded");
+      return this.checks;
+    }
+
+    let deleted = false;
+    try {
+      await this.check("Read object metadata", "s3:GetObject", async () => {
+        const metadata = await this.s3Manager.getObjectMetadata(
+          this.probeKey,
+          undefined,
+          signal,
+        );
+        if (metadata.size !== PROBE_CONTENT.length) {
+          throw new Error(
+            `HEAD reported ${metadata.size} bytes, expected ${PROBE_CONTENT.length}`,
+          );
+        }
+        return `${metadata.size} bytes`;
+      });
+
+      await this.check("Download object", "s3:GetObject", async () => {
+        const blob = await this.s3Manager.downloadFile(this.probeKey, signal);
+        if ((await blob.text()) !== PROBE_CONTENT) {
+          throw new Error("The downloaded content differs from the upload");
+        }
+        return `${blob.size} bytes`;
+      });
+
+      if (listed) {
+        await this.probeCapabilities(signal);
+      }
+
+      // Sync deletes with DeleteObjects, so the same API is checked here
+      deleted = await this.check(
+        "Delete object",
+        "s3:DeleteObject",
+        async () => {
+          const result = await this.s3Manager.deleteFiles(
+            [this.probeKey],
+            signal,
+          );
+          const error = result.errors.get(this.probeKey);
+          if (error) {
+            throw error;
+          }
+          return "DeleteObjects";
+        },
+      );
+    } finally {
+      // Also after a cancellation or a failed check, so no probe is left
+      if (!deleted) {
+        await this.removeProbe();
+      }
+    }
+
+    return this.checks;
+  }
+
+  public get failures(): number {
+    return this.checks.filter((check) => check.status === "fail").length;
+  }
+
+  /**
+   * Plain-text report without secrets, for pasting into tickets
+   */
+  public formatReport(): string {
+    const connection = this.s3Manager.getConnectionInfo();
+    const lines = [
+      "Zotero S3 Sync connection report",
+      `Date: ${new Date().toISOString()}`,
+      `Plugin: ${version}, Zotero: ${Zotero.version}`,
+      `Endpoint: ${connection.endpoint}`,
+      `Bucket: ${connection.bucket}`,
+      `Region: ${connection.region}`,
+      `Addressing: ${connection.addressingStyle}-style`,
+      `Prefix: ${this.prefix}`,
+      "",
+      ...this.checks.map(
+        (check) =>
+          `[${check.status.toUpperCase()}] ${check.name} (${check.permission}): ${check.detail}`,
+      ),
+      "",
+    ];
+    if (this.capabilities) {
+      lines.push(`Capabilities: ${describeCapabilities(this.capabilities)}`);
+    } else if (this.capabilityError) {
+      lines.push(`Capabilities: not probed (${this.capabilityError})`);
+    }
+    lines.push(
+      `Result: ${this.failures ? `${this.failures} of ${this.checks.length} checks failed` : "all checks passed"}`,
+    );
+    return lines.join("\n");
+  }
+
+  /**
+   * Probe again so provider changes (e.g. enabled versioning) are picked
+   * up, reusing the test object instead of writing a second one
+   */
+  private async probeCapabilities(signal?: AbortSignal): Promise<void> {
+    try {
+      this.capabilities = await this.s3Manager.probeCapabilities(
+        this.prefix,
+        signal,
+        { probeWritten: true },
+      );
+    } catch (error) {
+      if (error instanceof S3AbortError) {
+        throw error;
+      }
+      this.capabilityError = describeError(error);
+    }
+  }
+
+  /**
+   * Best-effort removal of the test object when the delete check did not
+   * pass. Takes no signal, as it also runs after a cancellation.
+   */
+  private async removeProbe(): Promise<void> {
+    try {
+      const result = await this.s3Manager.deleteFiles([this.probeKey]);
+      const error = result.errors.get(this.probeKey);
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      ztoolkit.log(
+        `Connection check: could not remove ${this.probeKey}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Compare the bucket's region with the settings and create the bucket if
+   * it is missing and the user agrees. Resolves whether the bucket exists.
+   */
+  private async checkBucket(signal?: AbortSignal): Promise<boolean> {
+    const { bucket, region } = this.s3Manager.getConnectionInfo();
+    const name = "Bucket region";
+    const permission = "s3:GetBucketLocation";
+
+    try {
+      const location = await this.s3Manager.getBucketLocation(signal);
+      if (location === region) {
+        this.record(name, permission, "pass", location);
+      } else {
+        this.record(
+          name,
+          permission,
+          "fail",
+          `The bucket is in ${location}, but the settings use ${region}`,
+        );
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof S3AbortError) {
+        throw error;
+      }
+      if (error instanceof S3Error && error.code === "NoSuchBucket") {
+        this.record(name, permission, "fail", "The bucket does not exist");
+        return this.createBucket(bucket, region, signal);
+      }
+      if (error instanceof S3Error && WRONG_REGION_CODES.includes(error.code)) {
+        this.record(
+          name,
+          permission,
+          "fail",
+          `${describeError(error)} The bucket is probably not in ${region}.`,
+        );
+        return true;
+      }
+      if (isNotImplemented(error)) {
+        this.record(name, permission, "skip", "Not supported by this provider");
+        return true;
+      }
+      // Sync itself never asks for the location
+      this.record(
+        name,
+        permission,
+        "fail",
+        error instanceof S3AccessDeniedError
+          ? `${describeError(error)} (not needed for sync)`
+          : describeError(error),
+      );
+      return true;
+    }
+  }
+
+  private async createBucket(
+    bucket: string,
+    region: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    if (!this.options.confirmCreateBucket(bucket, region)) {
+      this.skip("Create bucket", "s3:CreateBucket", "Declined");
+      return false;
+    }
+    return this.check("Create bucket", "s3:CreateBucket", async () => {
+      await this.s3Manager.createBucket(signal);
+      return `Created in ${region}`;
+    });
+  }
+
+  private skipObjectChecks(reason: string): void {
+    this.skip("Read object metadata", "s3:GetObject", reason);
+    this.skip("Download object", "s3:GetObject", reason);
+    this.skip("Delete object", "s3:DeleteObject", reason);
+  }
+
+  /**
+   * Run one check; the action resolves with the detail shown on success
+   */
+  private async check(
+    name: string,
+    permission: string,
+    action: () => Promise<string>,
+  ): Promise<boolean> {
+    try {
+      this.record(name, permission, "pass", await action());
+      return true;
+    } catch (error) {
+      if (error instanceof S3AbortError) {
+        throw error;
+      }
+      this.record(name, permission, "fail", describeError(error));
+      return false;
+    }
+  }
+
+  private skip(name: string, permission: string, reason: string): void {
+    this.record(name, permission, "skip", reason);
+  }
+
+  private record(
+    name: string,
+    permission: string,
+    status: PermissionCheckStatus,
+    detail: string,
+  ): void {
+    const check = { name, permission, status, detail };
+    ztoolkit.log(`Connection check: [${status}] ${name}: ${detail}`);
+    this.checks.push(check);
+    this.options.onCheck?.(check);
+  }
+}
+
+/**
+ * Run the wizard from the preferences pane, showing progress and then the
+ * report with an option to copy it. Clicking the progress window cancels
+ * the run.
+ */
+export async function runConnectionWizard(
+  win: mozIDOMWindowProxy,
+): Promise<void> {
+  const s3Manager = new S3Manager();
+  const title = getString("wizard-title");
+  // Gecko types the nsIPromptService constants as optional
+  const prompt = Services.prompt as Required<typeof Services.prompt>;
+
+  await s3Manager.whenLoaded();
+  if (!s3Manager.isConfigured()) {
+    prompt.alert(win, title, getString("wizard-not-configured"));
+    return;
+  }
+
+  const abortController = new AbortController();
+  const progressWindow = new ztoolkit.ProgressWindow(title, {
+    closeOnClick: true,
+  })
+    .createLine({
+      text: getString("wizard-running"),
+      type: "default",
+      progress: 0,
+    })
+    .show(-1); // No close timer, so only a click closes it
+  const closeWindow = progressWindow.win.close.bind(progressWindow.win);
+  progressWindow.win.close = () => {
+    abortController.abort();
+    closeWindow();
+  };
+
+  const wizard = new ConnectionWizard(
+    s3Manager,
+    (getPref("s3.prefix") as string) || "zotero-attachments",
+    {
+      confirmCreateBucket: (bucket, region) =>
+        prompt.confirm(
+          win,
+          title,
+          getString("wizard-create-bucket", { args: { bucket, region } }),
+        ),
+      onCheck: (check) =>
+        progressWindow.changeLine({
+          text: `${check.name}: ${check.status.toUpperCase()}`,
+          type: check.status === "fail" ? "error" : "default",
+          progress: Math.min(95, wizard.checks.length * 15),
+        }),
+    },
+  );
+  try {
+    await wizard.run(abortController.signal);
+  } catch (error) {
+    if (error instanceof S3AbortError) {
+      ztoolkit.log("Connection check cancelled");
+      return;
+    }
+    throw error;
+  } finally {
+    progressWindow.close();
+  }
+
+  const report = wizard.formatReport();
+  const summary = wizard.failures
+    ? getString("wizard-failed", { args: { count: wizard.failures } })
+    : getString("wizard-passed");
+  const buttonFlags =
+    prompt.BUTTON_POS_0 * prompt.BUTTON_TITLE_IS_STRING +
+    prompt.BUTTON_POS_1 * prompt.BUTTON_TITLE_IS_STRING;
+  const result = prompt.confirmEx(
+    win,
+    title,
+    `${summary}\n\n${report}`,
+    buttonFlags,
+    getString("wizard-copy-report"),
+    getString("wizard-close"),
+    "",
+    "", // No checkbox
+    { value: false },
+  );
+  if (result === 0) {
+    Zotero.Utilities.Internal.copyTextToClipboard(report);
+  }
+}
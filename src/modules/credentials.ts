@@ -0,0 +1,280 @@
+/**
+ * Credential Providers
+ * Supply (and refresh) the keys S3Manager signs requests with
+ */
+
+import { getPref } from "../utils/prefs";
+import { AwsProfile } from "./awsProfile";
+import { SecretStore } from "./secretStore";
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // Sent as x-amz-security-token for temporary credentials
+  expiration?: number; // Expiry time (ms), undefined for long-lived keys
+}
+
+export type CredentialSource = "static" | "profile" | "file" | "http";
+
+export interface CredentialProvider {
+  readonly source: CredentialSource;
+  /**
+   * Whether enough is configured to attempt loading credentials
+   */
+  isConfigured(): boolean;
+  /**
+   * Return usable credentials, reloading them when they are about to expire
+   * or when forceRefresh is set (e.g. after S3 rejected an expired token)
+   */
+  getCredentials(forceRefresh?: boolean): Promise<S3Credentials>;
+}
+
+/**
+ * Caches loaded credentials until shortly before they expire
+ */
+abstract class RefreshingCredentialProvider implements CredentialProvider {
+  // Refresh this long before expiry so a long transfer is not signed with
+  // credentials that lapse mid-request
+  private static readonly EXPIRY_WINDOW = 5 * 60 * 1000;
+
+  public abstract readonly source: CredentialSource;
+  private cached: S3Credentials | null = null;
+  private pending: Promise<S3Credentials> | null = null;
+
+  public abstract isConfigured(): boolean;
+
+  protected abstract load(): Promise<S3Credentials>;
+
+  public async getCredentials(forceRefresh = false): Promise<S3Credentials> {
+    if (!forceRefresh && this.cached && !this.isExpiring(this.cached)) {
+      return this.cached;
+    }
+
+    // Concurrent transfers share a single refresh
+    if (!this.pending) {
+      this.pending = this.load()
+        .then((credentials) => {
+          this.cached = credentials;
+          ztoolkit.log(
+            `Loaded ${this.source} credentials${
+              credentials.expiration
+                ? `, expiring ${new Date(credentials.expiration).toISOString()}`
+                : ""
+            }`,
+          );
+          return credentials;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  private isExpiring(credentials: S3Credentials): boolean {
+    return (
+      credentials.expiration !== undefined &&
+      credentials.expiration - Date.now() <
+        RefreshingCredentialProvider.EXPIRY_WINDOW
+    );
+  }
+}
+
+/**
+ * Fixed keys, from the preferences pane and login manager or an AWS profile
+ */
+export class StaticCredentialProvider implements CredentialProvider {
+  public readonly source: CredentialSource;
+  private credentials: S3Credentials;
+
+  constructor(
+    accessKeyId: string,
+    secretAccessKey: string,
+    sessionToken?: string,
+    source: CredentialSource = "static",
+  ) {
+    this.source = source;
+    this.credentials = {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: sessionToken || undefined,
+    };
+  }
+
+  public isConfigured(): boolean {
+    return !!(this.credentials.accessKeyId && this.credentials.secretAccessKey);
+  }
+
+  public async getCredentials(): Promise<S3Credentials> {
+    return this.credentials;
+  }
+}
+
+/**
+ * Credentials read from a local JSON file, re-read whenever they expire.
+ * Accepts the STS "Credentials" shape written by `aws sts assume-role` and
+ * most credential helpers.
+ */
+export class FileCredentialProvider extends RefreshingCredentialProvider {
+  public readonly source = "file";
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  public isConfigured(): boolean {
+    return !!this.filePath;
+  }
+
+  protected async load(): Promise<S3Credentials> {
+    const text = await IOUtils.readUTF8(this.filePath);
+    return parseCredentialsJson(text, this.filePath);
+  }
+}
+
+/**
+ * Credentials fetched from an HTTP endpoint returning JSON, such as a
+ * company STS broker or the ECS/MinIO container credentials endpoint
+ */
+export class HttpCredentialProvider extends RefreshingCredentialProvider {
+  public readonly source = "http";
+  private static readonly TIMEOUT = 10000;
+
+  constructor(private url: string) {
+    super();
+  }
+
+  public isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  protected load(): Promise<S3Credentials> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", this.url, true);
+      xhr.timeout = HttpCredentialProvider.TIMEOUT;
+      xhr.setRequestHeader("Accept", "application/json");
+
+      xhr.onload = () => {
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(
+            new Error(
+              `Credential endpoint returned HTTP ${xhr.status}: ${this.url}`,
+            ),
+          );
+          return;
+        }
+        try {
+          resolve(parseCredentialsJson(xhr.responseText || "", this.url));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () =>
+        reject(new Error(`Credential endpoint unreachable: ${this.url}`));
+      xhr.ontimeout = () =>
+        reject(new Error(`Credential endpoint timed out: ${this.url}`));
+
+      xhr.send();
+    });
+  }
+}
+
+/**
+ * Parse JSON credentials, accepting both the bare and the STS-wrapped
+ * ({"Credentials": {...}}) forms and the ECS "Token" field name
+ */
+export function parseCredentialsJson(
+  text: string,
+  origin: string,
+): S3Credentials {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Credentials from ${origin} are not valid JSON`);
+  }
+  let data = isRecord(parsed) ? parsed : {};
+  if (isRecord(data.Credentials)) {
+    data = data.Credentials;
+  }
+
+  const accessKeyId = stringField(data, "AccessKeyId", "accessKeyId");
+  const secretAccessKey = stringField(
+    data,
+    "SecretAccessKey",
+    "secretAccessKey",
+  );
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error(
+      `Credentials from ${origin} are missing AccessKeyId or SecretAccessKey`,
+    );
+  }
+
+  const expiration = stringField(data, "Expiration", "expiration");
+  const expirationMs = expiration ? Date.parse(expiration) : NaN;
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: stringField(data, "SessionToken", "Token", "sessionToken"),
+    expiration: isNaN(expirationMs) ? undefined : expirationMs,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The first of the named fields that holds a non-empty string
+ */
+function stringField(
+  data: Record<string, unknown>,
+  ...names: string[]
+): string | undefined {
+  for (const name of names) {
+    const value = data[name];
+    if (typeof value === "string" && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the provider selected by the s3.credentialSource pref.
+ * The "profile" source takes the AWS profile already loaded by S3Manager.
+ */
+export function createCredentialProvider(
+  profile?: AwsProfile | null,
+): CredentialProvider {
+  const pref = (
+    key:
+      | "s3.credentialSource"
+      | "s3.credentialFile"
+      | "s3.credentialUrl"
+      | "s3.accessKeyId",
+  ) => ((getPref(key) as string) || "").trim();
+
+  switch (pref("s3.credentialSource")) {
+    case "profile":
+      return new StaticCredentialProvider(
+        profile?.accessKeyId || "",
+        profile?.secretAccessKey || "",
+        profile?.sessionToken,
+        "profile",
+      );
+    case "file":
+      return new FileCredentialProvider(pref("s3.credentialFile"));
+    case "http":
+      return new HttpCredentialProvider(pref("s3.credentialUrl"));
+    default: {
+      const secrets = SecretStore.fromPrefs();
+      return new StaticCredentialProvider(
+        pref("s3.accessKeyId"),
+        secrets.get("secretAccessKey"),
+        secrets.get("sessionToken"),
+      );
+    }
+  }
+}
@@ -0,0 +1,816 @@
+/**
+ * Memory S3 Backend
+ * In-memory S3-compatible transport for running the sync engine offline.
+ * Supports single-bucket object CRUD, ListObjects v1 and v2 paging,
+ * GetBucketLocation, HEAD, ranged GET, conditional headers, DeleteObjects,
+ * multipart uploads, object tagging, archive restores, object versions and
+ * aws-chunked (streaming-signed) uploads, and can be told to fail or stall upcoming requests or to run on
+ * a different clock.
+ * Requests honour the abort signal.
+ * Anything else answers 501 NotImplemented.
+ */
+
+import { md5Base64 } from "../utils/hash";
+import { isArchiveStorageClass } from "./storageClass";
+import { S3AbortError, S3NetworkError, S3TimeoutError } from "./s3Errors";
+import type {
+  S3Response,
+  S3Transport,
+  S3TransportRequest,
+} from "./s3Transport";
+
+export interface MemoryS3Object {
+  body: Uint8Array;
+  etag: string; // MD5 hex, without quotes
+  lastModified: number;
+  contentType: string;
+  metadata: Record<string, string>; // x-amz-meta-* values by suffix
+  storageClass?: string;
+  tags?: string; // URL-encoded tag set
+  restore?: "ongoing" | "restored"; // Restore state of an archived object
+  versionId?: string; // Set while versioning is enabled, "null" otherwise
+}
+
+export interface MemoryS3Fault {
+  method?: string; // Any method when omitted
+  key?: string; // Any key when omitted; "" matches bucket-level requests
+  query?: string; // Only requests whose query string contains this
+  status?: number; // HTTP status of the error response (default 500)
+  code?: string; // S3 error code in the response body
+  network?: boolean; // Fail with a network error instead of a response
+  timeout?: boolean; // Fail with a timeout instead of a response
+  stall?: boolean; // Never answer: fails on the connect timeout or when aborted
+  onRequest?: () => void; // Called when the fault is hit, e.g. to cancel a sync
+  times?: number; // Number of matching requests to fail (default 1)
+}
+
+export interface MemoryS3RequestLog {
+  method: string;
+  key: string; // "" for bucket-level requests
+  query: string;
+  headers: Record<string, string>; // Lower-cased names
+}
+
+interface MemoryS3MultipartUpload {
+  key: string;
+  headers: Record<string, string>; // Headers of CreateMultipartUpload
+  parts: Map<number, Uint8Array>;
+}
+
+export class MemoryS3Backend implements S3Transport {
+  public pageSize = 1000; // ListObjects MaxKeys cap
+  public listObjectsV2 = true; // false answers list-type=2 like a v1-only gateway
+  public clockOffset = 0; // Server clock minus client clock (ms)
+  public region = "us-east-1"; // Answered by GetBucketLocation
+  public readonly deleteDenied = new Set<string>(); // Keys DeleteObjects refuses
+  public versioning = false; // Keep the versions that overwrites replace
+  public readonly requests: MemoryS3RequestLog[] = [];
+  private objects = new Map<string, MemoryS3Object>();
+  private faults: MemoryS3Fault[] = [];
+  private uploads = new Map<string, MemoryS3MultipartUpload>();
+  private nextUploadId = 1;
+  private versions = new Map<string, MemoryS3Object[]>(); // Replaced versions, oldest first
+  private nextVersionId = 1;
+
+  constructor(private bucketName: string) {}
+
+  /**
+   * Store an object directly, as another client would
+   */
+  public putObject(
+    key: string,
+    body: Uint8Array | string,
+    options: Partial<Omit<MemoryS3Object, "body" | "etag">> = {},
+  ): MemoryS3Object {
+    const bytes =
+      typeof body === "string" ? new TextEncoder().encode(body) : body;
+    const object: MemoryS3Object = {
+      body: bytes,
+      etag: this.md5Hex(bytes),
+      lastModified: options.lastModified ?? Date.now(),
+      contentType: options.contentType || "application/octet-stream",
+      metadata: options.metadata || {},
+      storageClass: options.storageClass,
+      tags: options.tags,
+      versionId: this.versioning ? `v${this.nextVersionId++}` : undefined,
+    };
+    const previous = this.objects.get(key);
+    if (this.versioning && previous) {
+      this.versions.set(key, [...(this.versions.get(key) || []), previous]);
+    }
+    this.objects.set(key, object);
+    return object;
+  }
+
+  public getObject(key: string): MemoryS3Object | undefined {
+    return this.objects.get(key);
+  }
+
+  public deleteObject(key: string): void {
+    this.objects.delete(key);
+  }
+
+  public listKeys(): string[] {
+    return [...this.objects.keys()].sort();
+  }
+
+  /**
+   * Fail the next matching request(s) instead of handling them
+   */
+  public failNext(fault: MemoryS3Fault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  public reset(): void {
+    this.objects.clear();
+    this.uploads.clear();
+    this.versions.clear();
+    this.deleteDenied.clear();
+    this.versioning = false;
+    this.faults = [];
+    this.requests.length = 0;
+    this.pageSize = 1000;
+    this.listObjectsV2 = true;
+    this.clockOffset = 0;
+    this.region = "us-east-1";
+  }
+
+  public async send(request: S3TransportRequest): Promise<S3Response> {
+    if (request.signal?.aborted) {
+      throw new S3AbortError(request.key);
+    }
+    const url = new URL(request.url);
+    const key = this.parseKey(url);
+    const method = request.method.toUpperCase();
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      headers[name.toLowerCase()] = value;
+    }
+    this.requests.push({ method, key: key ?? "", query: url.search, headers });
+
+    const fault = this.takeFault(method, key, url.search);
+    fault?.onRequest?.();
+    if (request.signal?.aborted) {
+      throw new S3AbortError(request.key);
+    }
+    if (fault?.stall) {
+      return this.stall(request);
+    }
+    if (fault?.network) {
+      throw new S3NetworkError(request.key);
+    }
+    if (fault?.timeout) {
+      throw new S3TimeoutError(request.key);
+    }
+    if (fault) {
+      return this.errorResponse(
+        request,
+        fault.status || 500,
+        fault.code || "InternalError",
+      );
+    }
+
+    if (this.isSkewed(headers["x-amz-date"])) {
+      return this.errorResponse(request, 403, "RequestTimeTooSkewed");
+    }
+    if (key === null) {
+      return this.errorResponse(request, 404, "NoSuchBucket");
+    }
+    const query = url.searchParams;
+
+    if (key === "") {
+      if (method === "GET" && query.has("location")) {
+        // us-east-1 buckets have an empty location constraint
+        const location = this.region === "us-east-1" ? "" : this.region;
+        return this.response(
+          request,
+          200,
+          `<?xml version="1.0" encoding="UTF-8"?><LocationConstraint>${location}</LocationConstraint>`,
+        );
+      }
+      if (method === "GET" && query.has("versioning")) {
+        const status = this.versioning ? "<Status>Enabled</Status>" : "";
+        return this.response(
+          request,
+          200,
+          `<?xml version="1.0" encoding="UTF-8"?><VersioningConfiguration>${status}</VersioningConfiguration>`,
+        );
+      }
+      if (method === "GET" && query.has("versions")) {
+        return this.listObjectVersions(request, query);
+      }
+      if (method === "GET") {
+        return this.listObjects(request, query);
+      }
+      if (method === "POST" && query.has("delete")) {
+        return this.deleteObjects(request);
+      }
+      return this.errorResponse(request, 501, "NotImplemented");
+    }
+
+    if (method === "PUT" && query.has("tagging")) {
+      return this.putTagging(request, key);
+    }
+    if (method === "POST" && query.has("uploads")) {
+      return this.createMultipartUpload(request, key, headers);
+    }
+    if (query.has("uploadId")) {
+      return this.multipartRequest(request, key, query, headers);
+    }
+    if (method === "POST" && query.has("restore")) {
+      return this.restoreObject(request, key);
+    }
+    if ((method === "GET" || method === "HEAD") && query.has("versionId")) {
+      return this.getObjectResponse(
+        request,
+        this.findVersion(key, query.get("versionId")!),
+        headers,
+      );
+    }
+    if ([...query.keys()].length > 0) {
+      // Versions, ACLs, ...
+      return this.errorResponse(request, 501, "NotImplemented");
+    }
+
+    switch (method) {
+      case "HEAD":
+      case "GET":
+        return this.getObjectResponse(request, this.objects.get(key), headers);
+      case "PUT":
+        return this.putObjectRequest(request, key, headers);
+      case "DELETE":
+        this.objects.delete(key);
+        return this.response(request, 204);
+      default:
+        return this.errorResponse(request, 501, "NotImplemented");
+    }
+  }
+
+  /**
+   * Whether x-amz-date is more than 15 minutes off the server clock, the
+   * window S3 accepts
+   */
+  private isSkewed(amzDate?: string): boolean {
+    const match = amzDate?.match(
+      /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+    );
+    if (!match) {
+      return false;
+    }
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const signedAt = Date.UTC(year, month - 1, day, hour, minute, second);
+    return Math.abs(signedAt - this.now()) > 15 * 60 * 1000;
+  }
+
+  private now(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  /**
+   * Object key of a path-style or virtual-hosted-style URL: "" for the
+   * bucket itself, null for a different bucket
+   */
+  private parseKey(url: URL): string | null {
+    let path = url.pathname.replace(/^\//, "");
+    if (!url.hostname.startsWith(`${this.bucketName}.`)) {
+      const [bucket, ...rest] = path.split("/");
+      if (bucket !== this.bucketName) {
+        return null;
+      }
+      path = rest.join("/");
+    }
+    return decodeURIComponent(path);
+  }
+
+  private takeFault(
+    method: string,
+    key: string | null,
+    query: string,
+  ): MemoryS3Fault | null {
+    const fault = this.faults.find(
+      (f) =>
+        (f.method === undefined || f.method.toUpperCase() === method) &&
+        (f.key === undefined || f.key === key) &&
+        (f.query === undefined || query.includes(f.query)),
+    );
+    if (!fault) {
+      return null;
+    }
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    return fault;
+  }
+
+  /**
+   * Hang like an unresponsive server until the connect timeout or an abort
+   */
+  private stall(request: S3TransportRequest): Promise<S3Response> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new S3AbortError(request.key));
+      };
+      const timer = request.connectTimeout
+        ? setTimeout(() => {
+            request.signal?.removeEventListener("abort", onAbort);
+            reject(new S3TimeoutError(request.key));
+          }, request.connectTimeout)
+        : undefined;
+      request.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private listObjects(
+    request: S3TransportRequest,
+    query: URLSearchParams,
+  ): S3Response {
+    const prefix = query.get("prefix") || "";
+    const maxKeys = Math.min(
+      parseInt(query.get("max-keys") || "1000", 10),
+      this.pageSize,
+    );
+    const v2 = this.listObjectsV2 && query.get("list-type") === "2";
+    // The continuation token is simply the last key of the previous page
+    const after = v2 ? query.get("continuation-token") : query.get("marker");
+    const keys = this.listKeys().filter(
+      (key) => key.startsWith(prefix) && (after === null || key > after),
+    );
+    const page = keys.slice(0, maxKeys);
+    const isTruncated = keys.length > page.length;
+
+    const contents = page
+      .map((key) => {
+        const object = this.objects.get(key)!;
+        return `<Contents><Key>${this.escapeXml(key)}</Key><LastModified>${new Date(object.lastModified).toISOString()}</LastModified><ETag>&quot;${object.etag}&quot;</ETag><Size>${object.body.length}</Size><StorageClass>${object.storageClass || "STANDARD"}</StorageClass></Contents>`;
+      })
+      .join("");
+    // v1 has no KeyCount and, without a delimiter, no NextMarker
+    const paging = v2
+      ? `<KeyCount>${page.length}</KeyCount>` +
+        (isTruncated
+          ? `<NextContinuationToken>${this.escapeXml(page[page.length - 1])}</NextContinuationToken>`
+          : "")
+      : `<Marker>${this.escapeXml(after || "")}</Marker>`;
+    return this.response(
+      request,
+      200,
+      `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${this.bucketName}</Name><Prefix>${this.escapeXml(prefix)}</Prefix>${paging}<MaxKeys>${maxKeys}</MaxKeys><IsTruncated>${isTruncated}</IsTruncated>${contents}</ListBucketResult>`,
+    );
+  }
+
+  /**
+   * ListObjectVersions in a single page, current version first per key
+   */
+  private listObjectVersions(
+    request: S3TransportRequest,
+    query: URLSearchParams,
+  ): S3Response {
+    const prefix = query.get("prefix") || "";
+    const entries = this.listKeys()
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => {
+        const current = this.objects.get(key)!;
+        const earlier = [...(this.versions.get(key) || [])].reverse();
+        return [current, ...earlier]
+          .map(
+            (object) =>
+              `<Version><Key>${this.escapeXml(key)}</Key><VersionId>${object.versionId || "null"}</VersionId><IsLatest>${object === current}</IsLatest><LastModified>${new Date(object.lastModified).toISOString()}</LastModified><ETag>&quot;${object.etag}&quot;</ETag><Size>${object.body.length}</Size></Version>`,
+          )
+          .join("");
+      })
+      .join("");
+    return this.response(
+      request,
+      200,
+      `<?xml version="1.0" encoding="UTF-8"?><ListVersionsResult><Name>${this.bucketName}</Name><Prefix>${this.escapeXml(prefix)}</Prefix><IsTruncated>false</IsTruncated>${entries}</ListVersionsResult>`,
+    );
+  }
+
+  private findVersion(
+    key: string,
+    versionId: string,
+  ): MemoryS3Object | undefined {
+    return [this.objects.get(key), ...(this.versions.get(key) || [])].find(
+      (object) => object && (object.versionId || "null") === versionId,
+    );
+  }
+
+  private getObjectResponse(
+    request: S3TransportRequest,
+    object: MemoryS3Object | undefined,
+    headers: Record<string, string>,
+  ): S3Response {
+    if (!object) {
+      return this.errorResponse(request, 404, "NoSuchKey");
+    }
+    const precondition = this.checkPreconditions(object, headers, true);
+    if (precondition === 304) {
+      return this.response(request, 304, "", this.objectHeaders(object));
+    }
+    if (precondition) {
+      return this.errorResponse(request, precondition, "PreconditionFailed");
+    }
+    if (
+      request.method !== "HEAD" &&
+      isArchiveStorageClass(object.storageClass) &&
+      object.restore !== "restored"
+    ) {
+      return this.errorResponse(request, 403, "InvalidObjectState");
+    }
+
+    let body = object.body;
+    let status = 200;
+    const responseHeaders = this.objectHeaders(object);
+    const range = headers["range"]?.match(/^bytes=(\d+)-(\d*)$/);
+    if (range && request.method !== "HEAD") {
+      const start = parseInt(range[1], 10);
+      const end = range[2]
+        ? Math.min(parseInt(range[2], 10), object.body.length - 1)
+        : object.body.length - 1;
+      if (start >= object.body.length) {
+        return this.errorResponse(request, 416, "InvalidRange");
+      }
+      body = object.body.slice(start, end + 1);
+      status = 206;
+      responseHeaders["content-range"] =
+        `bytes ${start}-${end}/${object.body.length}`;
+    }
+    responseHeaders["content-length"] = String(body.length);
+
+    return this.response(
+      request,
+      status,
+      request.method === "HEAD" ? new Uint8Array(0) : body,
+      responseHeaders,
+    );
+  }
+
+  private putObjectRequest(
+    request: S3TransportRequest,
+    key: string,
+    headers: Record<string, string>,
+  ): S3Response {
+    const existing = this.objects.get(key);
+    if (headers["if-none-match"] === "*" && existing) {
+      return this.errorResponse(request, 412, "PreconditionFailed");
+    }
+    if (headers["if-match"] && !existing) {
+      return this.errorResponse(request, 404, "NoSuchKey");
+    }
+    if (existing && this.checkPreconditions(existing, headers, false)) {
+      return this.errorResponse(request, 412, "PreconditionFailed");
+    }
+
+    const body = this.decodeBody(request, headers);
+    if (!body) {
+      return this.errorResponse(request, 400, "IncompleteBody");
+    }
+
+    const object = this.putObject(key, body, this.objectOptions(headers));
+    return this.response(request, 200, "", { etag: `"${object.etag}"` });
+  }
+
+  /**
+   * Content type, metadata, storage class and tags of a PUT or
+   * CreateMultipartUpload request
+   */
+  private objectOptions(
+    headers: Record<string, string>,
+  ): Partial<Omit<MemoryS3Object, "body" | "etag">> {
+    const metadata: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (name.startsWith("x-amz-meta-")) {
+        metadata[name.slice("x-amz-meta-".length)] = value;
+      }
+    }
+    return {
+      contentType: headers["content-type"],
+      metadata,
+      storageClass: headers["x-amz-storage-class"],
+      tags: headers["x-amz-tagging"],
+    };
+  }
+
+  private createMultipartUpload(
+    request: S3TransportRequest,
+    key: string,
+    headers: Record<string, string>,
+  ): S3Response {
+    const uploadId = `upload-${this.nextUploadId++}`;
+    this.uploads.set(uploadId, { key, headers, parts: new Map() });
+    return this.response(
+      request,
+      200,
+      `<?xml version="1.0" encoding="UTF-8"?><InitiateMultipartUploadResult><Bucket>${this.bucketName}</Bucket><Key>${this.escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`,
+    );
+  }
+
+  /**
+   * UploadPart, CompleteMultipartUpload and AbortMultipartUpload. The
+   * completed object gets S3's multipart ETag: the MD5 of the part MD5s
+   * followed by the part count.
+   */
+  private multipartRequest(
+    request: S3TransportRequest,
+    key: string,
+    query: URLSearchParams,
+    headers: Record<string, string>,
+  ): S3Response {
+    const uploadId = query.get("uploadId") || "";
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.key !== key) {
+      return this.errorResponse(request, 404, "NoSuchUpload");
+    }
+
+    switch (request.method.toUpperCase()) {
+      case "PUT": {
+        const partNumber = parseInt(query.get("partNumber") || "", 10);
+        const body = this.decodeBody(request, headers);
+        if (!body) {
+          return this.errorResponse(request, 400, "IncompleteBody");
+        }
+        upload.parts.set(partNumber, body);
+        return this.response(request, 200, "", {
+          etag: `"${this.md5Hex(body)}"`,
+        });
+      }
+      case "POST": {
+        const xml = new DOMParser().parseFromString(
+          new TextDecoder().decode(request.body),
+          "text/xml",
+        );
+        const parts: Uint8Array[] = [];
+        const entries = xml.getElementsByTagName("Part");
+        for (let i = 0; i < entries.length; i++) {
+          const field = (name: string) =>
+            entries[i].getElementsByTagName(name)[0]?.textContent || "";
+          const part = upload.parts.get(parseInt(field("PartNumber"), 10));
+          if (!part || field("ETag") !== `"${this.md5Hex(part)}"`) {
+            return this.errorResponse(request, 400, "InvalidPart");
+          }
+          parts.push(part);
+        }
+
+        const body = new Uint8Array(
+          parts.reduce((total, part) => total + part.length, 0),
+        );
+        const digests = new Uint8Array(parts.length * 16);
+        let position = 0;
+        parts.forEach((part, index) => {
+          body.set(part, position);
+          position += part.length;
+          digests.set(
+            Uint8Array.from(atob(md5Base64(part)), (char) =>
+              char.charCodeAt(0),
+            ),
+            index * 16,
+          );
+        });
+        const object = this.putObject(
+          key,
+          body,
+          this.objectOptions(upload.headers),
+        );
+        object.etag = `${this.md5Hex(digests)}-${parts.length}`;
+        this.uploads.delete(uploadId);
+        return this.response(
+          request,
+          200,
+          `<?xml version="1.0" encoding="UTF-8"?><CompleteMultipartUploadResult><Bucket>${this.bucketName}</Bucket><Key>${this.escapeXml(key)}</Key><ETag>&quot;${object.etag}&quot;</ETag></CompleteMultipartUploadResult>`,
+        );
+      }
+      case "DELETE":
+        this.uploads.delete(uploadId);
+        return this.response(request, 204);
+      default:
+        return this.errorResponse(request, 501, "NotImplemented");
+    }
+  }
+
+  /**
+   * Strip the aws-chunked framing of a streaming-signed body. Chunk
+   * signatures are not verified, like every other signature here; null
+   * when the framing or decoded length is wrong.
+   */
+  private decodeBody(
+    request: S3TransportRequest,
+    headers: Record<string, string>,
+  ): Uint8Array | null {
+    const body = request.body || new Uint8Array(0);
+    if (
+      headers["x-amz-content-sha256"] !== "STREAMING-AWS4-HMAC-SHA256-PAYLOAD"
+    ) {
+      return body;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    while (true) {
+      let lineEnd = offset;
+      while (
+        lineEnd + 1 < body.length &&
+        !(body[lineEnd] === 13 && body[lineEnd + 1] === 10)
+      ) {
+        lineEnd++;
+      }
+      const line = new TextDecoder().decode(body.subarray(offset, lineEnd));
+      const match = line.match(/^([0-9a-f]+);chunk-signature=[0-9a-f]{64}$/);
+      if (!match) {
+        return null;
+      }
+      const size = parseInt(match[1], 16);
+      offset = lineEnd + 2;
+      chunks.push(body.subarray(offset, offset + size));
+      offset += size + 2;
+      if (size === 0) {
+        break;
+      }
+    }
+
+    const decoded = new Uint8Array(
+      chunks.reduce((total, chunk) => total + chunk.length, 0),
+    );
+    let position = 0;
+    for (const chunk of chunks) {
+      decoded.set(chunk, position);
+      position += chunk.length;
+    }
+    if (
+      offset !== body.length ||
+      decoded.length !== Number(headers["x-amz-decoded-content-length"])
+    ) {
+      return null;
+    }
+    return decoded;
+  }
+
+  private putTagging(request: S3TransportRequest, key: string): S3Response {
+    const object = this.objects.get(key);
+    if (!object) {
+      return this.errorResponse(request, 404, "NoSuchKey");
+    }
+    const xml = new DOMParser().parseFromString(
+      new TextDecoder().decode(request.body),
+      "text/xml",
+    );
+    const params = new URLSearchParams();
+    const tags = xml.getElementsByTagName("Tag");
+    for (let i = 0; i < tags.length; i++) {
+      params.append(
+        tags[i].getElementsByTagName("Key")[0]?.textContent || "",
+        tags[i].getElementsByTagName("Value")[0]?.textContent || "",
+      );
+    }
+    object.tags = params.toString();
+    return this.response(request, 200);
+  }
+
+  /**
+   * Start a restore of an archived object; the test completes it by setting
+   * the object's restore state. 200 means a restored copy is available.
+   */
+  private restoreObject(request: S3TransportRequest, key: string): S3Response {
+    const object = this.objects.get(key);
+    if (!object) {
+      return this.errorResponse(request, 404, "NoSuchKey");
+    }
+    if (!isArchiveStorageClass(object.storageClass)) {
+      return this.errorResponse(request, 403, "InvalidObjectState");
+    }
+    if (object.restore === "ongoing") {
+      return this.errorResponse(request, 409, "RestoreAlreadyInProgress");
+    }
+    if (object.restore === "restored") {
+      return this.response(request, 200);
+    }
+    object.restore = "ongoing";
+    return this.response(request, 202);
+  }
+
+  private deleteObjects(request: S3TransportRequest): S3Response {
+    const xml = new DOMParser().parseFromString(
+      new TextDecoder().decode(request.body),
+      "text/xml",
+    );
+    const objects = xml.getElementsByTagName("Object");
+    let results = "";
+    for (let i = 0; i < objects.length; i++) {
+      const key = objects[i].getElementsByTagName("Key")[0]?.textContent || "";
+      if (this.deleteDenied.has(key)) {
+        results += `<Error><Key>${this.escapeXml(key)}</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error>`;
+        continue;
+      }
+      this.objects.delete(key);
+      results += `<Deleted><Key>${this.escapeXml(key)}</Key></Deleted>`;
+    }
+    return this.response(
+      request,
+      200,
+      `<?xml version="1.0" encoding="UTF-8"?><DeleteResult>${results}</DeleteResult>`,
+    );
+  }
+
+  /**
+   * Status of a failed If-Match / If-None-Match check, or 0 if it passed.
+   * A matching If-None-Match answers reads with 304 and writes with 412.
+   */
+  private checkPreconditions(
+    object: MemoryS3Object,
+    headers: Record<string, string>,
+    isRead: boolean,
+  ): number {
+    const etag = `"${object.etag}"`;
+    const ifMatch = headers["if-match"];
+    if (ifMatch && ifMatch !== "*" && ifMatch !== etag) {
+      return 412;
+    }
+    const ifNoneMatch = headers["if-none-match"];
+    if (ifNoneMatch && (ifNoneMatch === "*" || ifNoneMatch === etag)) {
+      return isRead ? 304 : 412;
+    }
+    return 0;
+  }
+
+  private objectHeaders(object: MemoryS3Object): Record<string, string> {
+    const headers: Record<string, string> = {
+      etag: `"${object.etag}"`,
+      "last-modified": new Date(object.lastModified).toUTCString(),
+      "content-type": object.contentType,
+    };
+    if (object.versionId) {
+      headers["x-amz-version-id"] = object.versionId;
+    }
+    if (object.storageClass && object.storageClass !== "STANDARD") {
+      headers["x-amz-storage-class"] = object.storageClass;
+    }
+    if (object.restore) {
+      headers["x-amz-restore"] =
+        object.restore === "ongoing"
+          ? 'ongoing-request="true"'
+          : `ongoing-request="false", expiry-date="${new Date(this.now() + 86400000).toUTCString()}"`;
+    }
+    if (object.tags) {
+      headers["x-amz-tagging-count"] = String(
+        [...new URLSearchParams(object.tags).keys()].length,
+      );
+    }
+    for (const [name, value] of Object.entries(object.metadata)) {
+      headers[`x-amz-meta-${name}`] = value;
+    }
+    return headers;
+  }
+
+  private errorResponse(
+    request: S3TransportRequest,
+    status: number,
+    code: string,
+  ): S3Response {
+    // HEAD responses never carry a body
+    const body =
+      request.method === "HEAD"
+        ? ""
+        : `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message><RequestId>memory</RequestId></Error>`;
+    return this.response(request, status, body, {
+      "x-amz-request-id": "memory",
+    });
+  }
+
+  private response(
+    request: S3TransportRequest,
+    status: number,
+    body: Uint8Array | string = "",
+    headers: Record<string, string> = {},
+  ): S3Response {
+    const bytes =
+      typeof body === "string" ? new TextEncoder().encode(body) : body;
+    const isText = request.responseType !== "arraybuffer";
+    const text = isText ? new TextDecoder().decode(bytes) : "";
+    return {
+      status,
+      statusText: String(status),
+      text,
+      body: isText ? text : bytes.slice().buffer,
+      getHeader: (name) =>
+        ({ date: new Date(this.now()).toUTCString(), ...headers })[
+          name.toLowerCase()
+        ] ?? null,
+    };
+  }
+
+  private md5Hex(bytes: Uint8Array): string {
+    return Array.from(atob(md5Base64(bytes)), (char) =>
+      char.charCodeAt(0).toString(16).padStart(2, "0"),
+    ).join("");
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+}
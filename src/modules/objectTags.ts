@@ -0,0 +1,179 @@
+/**
+ * Object Tags
+ * Describes attachments with S3 object tags (title, author, DOI, collections,
+ * ...) so the bucket can be searched and given lifecycle rules outside
+ * Zotero, and keeps the tags current when items change
+ */
+
+import { getPref } from "../utils/prefs";
+
+// S3 limits: 10 tags per object, 256 characters per value
+const MAX_VALUE_LENGTH = 256;
+const UPDATE_DELAY = 5000; // Batch bursts of item edits (ms)
+
+export function isObjectTaggingEnabled(): boolean {
+  return !!getPref("s3.objectTagging");
+}
+
+/**
+ * Tags for an attachment, taken from its parent item where it has one
+ */
+export function buildObjectTags(attachment: any): Record<string, string> {
+  const parent = attachment.parentItem || attachment;
+  const tags: Record<string, string> = {
+    "zotero-title": parent.getField("title"),
+    "zotero-author": getFirstAuthor(parent),
+    "zotero-year": getYear(parent),
+    "zotero-doi": parent.getField("DOI") || "",
+    "zotero-library": String(attachment.libraryID),
+    "zotero-item": parent.key,
+    "zotero-filename": attachment.attachmentFilename || "",
+    "zotero-content-type": attachment.attachmentContentType || "",
+    "zotero-collections": getCollectionPaths(parent).join(" + "),
+  };
+
+  // Empty values are dropped rather than stored as blank tags
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tags)) {
+    const sanitized = sanitizeTagValue(value);
+    if (sanitized) {
+      result[key] = sanitized;
+    }
+  }
+  return result;
+}
+
+/**
+ * S3 accepts letters, numbers, spaces and + - = . _ : / @ in tag values
+ */
+function sanitizeTagValue(value: string): string {
+  return (value || "")
+    .replace(/[^\p{L}\p{N} +\-=._:/@]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_VALUE_LENGTH);
+}
+
+function getFirstAuthor(item: any): string {
+  const creator = item.getCreators?.()[0];
+  if (!creator) {
+    return "";
+  }
+  return `${creator.firstName || ""} ${creator.lastName || ""}`.trim();
+}
+
+function getYear(item: any): string {
+  // Multipart dates start with a zero-padded year, e.g. "2021-03-00 March 2021"
+  const year = String(item.getField("date", true, true) || "").slice(0, 4);
+  return /^\d{4}$/.test(year) && year !== "0000" ? year : "";
+}
+
+/**
+ * Full paths of the collections an item is in, e.g. "Thesis/Chapter 2"
+ */
+function getCollectionPaths(item: any): string[] {
+  const paths: string[] = [];
+  for (const collectionID of (item.getCollections?.() || []) as number[]) {
+    const names: string[] = [];
+    // get() answers false for a collection deleted in the meantime
+    let collection: Zotero.Collection | null =
+      Zotero.Collections.get(collectionID) || null;
+    while (collection) {
+      names.unshift(collection.name);
+      collection = collection.parentID
+        ? Zotero.Collections.get(collection.parentID) || null
+        : null;
+    }
+    if (names.length > 0) {
+      paths.push(names.join("/"));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Collects item and collection changes from the notifier and re-tags the
+ * affected attachments once the edits settle
+ */
+export class ObjectTagUpdater {
+  private pending = new Set<number>(); // Item IDs waiting for an update
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Handle an "item" or "collection-item" notifier event
+   */
+  public onNotify(
+    event: string,
+    type: string,
+    ids: Array<string | number>,
+  ): void {
+    if (
+      !isObjectTaggingEnabled() ||
+      !["modify", "add", "remove"].includes(event)
+    ) {
+      return;
+    }
+
+    if (type === "item" && event === "modify") {
+      ids.forEach((id) => this.pending.add(Number(id)));
+    } else if (type === "collection-item") {
+      // IDs are "collectionID-itemID"
+      ids.forEach((id) => this.pending.add(Number(String(id).split("-")[1])));
+    } else {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, UPDATE_DELAY);
+  }
+
+  /**
+   * Drop pending updates, e.g. at shutdown, so no flush runs after the
+   * plugin has unloaded
+   */
+  public dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+  }
+
+  private async flush(): Promise<void> {
+    const syncManager = addon.data.syncManager;
+    const itemIDs = [...this.pending];
+    this.pending.clear();
+    if (!syncManager) {
+      return;
+    }
+
+    const attachmentKeys = new Set<string>();
+    for (const item of Zotero.Items.get(itemIDs)) {
+      if (!item) {
+        continue;
+      }
+      if (item.isFileAttachment()) {
+        attachmentKeys.add(item.key);
+      } else if (item.isRegularItem()) {
+        for (const attachment of Zotero.Items.get(item.getAttachments())) {
+          if (attachment?.isFileAttachment()) {
+            attachmentKeys.add(attachment.key);
+          }
+        }
+      }
+    }
+
+    for (const attachmentKey of attachmentKeys) {
+      try {
+        await syncManager.updateObjectTags(attachmentKey);
+      } catch (error) {
+        ztoolkit.log(`Error updating object tags for ${attachmentKey}:`, error);
+      }
+    }
+  }
+}
@@ -1,5 +1,18 @@
 import { config } from "../../package.json";
 import { getString } from "../utils/locale";
+import { getPref } from "../utils/prefs";
+import { listAwsProfiles } from "./awsProfile";
+import { SecretName, SecretStore } from "./secretStore";
+import { ServerSideEncryption } from "./serverSideEncryption";
+import { describeError } from "./s3Errors";
+
+const SECRET_LABELS: { [name in SecretName]: string } = {
+  secretAccessKey: "Secret Access Key (秘密访问密钥)",
+  sessionToken: "Session Token (会话令牌)",
+  sseCustomerKey:
+    "SSE-C Key, base64 256-bit (SSE-C 密钥，base64 编码的 256 位密钥)",
+  encryptionPassphrase: "Encryption Passphrase (加密密码)",
+};
 
 export async function registerPrefsScripts(_window: Window) {
   // This function is called when the prefs window is opened
@@ -12,5 +25,120 @@ export async function registerPrefsScripts(_window: Window) {
     addon.data.prefs.window = _window;
   }
 
+  await updateAwsProfileList();
+  updateSecretStatus();
   ztoolkit.log("S3 Sync preferences loaded");
 }
+
+/**
+ * Fill the AWS profile menulist with the profiles found in ~/.aws
+ */
+async function updateAwsProfileList() {
+  const doc = addon.data.prefs!.window.document;
+  const menulist = doc?.querySelector(
+    `#zotero-prefpane-${config.addonRef}-s3-aws-profile`,
+  ) as XUL.MenuList | null;
+  if (!menulist) {
+    return;
+  }
+
+  // Keep the saved profile selectable even if the files no longer list it
+  const selected = (getPref("s3.awsProfile") as string) || "default";
+  const profiles = await listAwsProfiles();
+  if (!profiles.includes(selected)) {
+    profiles.unshift(selected);
+  }
+
+  menulist.querySelector("menupopup")?.replaceChildren();
+  for (const name of profiles) {
+    menulist.appendItem(name, name);
+  }
+  menulist.value = selected;
+}
+
+/**
+ * Show whether each secret is saved for the current endpoint and bucket.
+ * Secret values are never shown in the pane.
+ */
+function updateSecretStatus() {
+  const doc = addon.data.prefs?.window.document;
+  if (!doc) {
+    return;
+  }
+
+  const store = SecretStore.fromPrefs();
+  for (const name of Object.keys(SECRET_LABELS) as SecretName[]) {
+    const status = doc.querySelector(
+      `#zotero-prefpane-${config.addonRef}-s3-${name}-status`,
+    );
+    status?.setAttribute(
+      "data-l10n-id",
+      store.has(name) ? "pref-secret-saved" : "pref-secret-not-saved",
+    );
+  }
+}
+
+/**
+ * Parent window for prompts. Gecko accepts null for a prompt without a
+ * parent, which its typings do not allow for.
+ */
+function getPromptParent(): mozIDOMWindowProxy {
+  return (addon.data.prefs?.window ?? null) as mozIDOMWindowProxy;
+}
+
+/**
+ * Ask for a secret and save it to the login manager
+ */
+export async function promptForSecret(name: SecretName) {
+  const input = { value: "" };
+  const confirmed = Services.prompt.promptPassword(
+    getPromptParent(),
+    "S3 Sync",
+    `${SECRET_LABELS[name]}:`,
+    input,
+  );
+  if (!confirmed || !input.value.trim()) {
+    return;
+  }
+
+  const value = input.value.trim();
+  if (name === "sseCustomerKey") {
+    try {
+      new ServerSideEncryption("SSE-C", "", value).getHeaders("read");
+    } catch (error) {
+      Services.prompt.alert(getPromptParent(), "S3 Sync", describeError(error));
+      return;
+    }
+  }
+
+  // A lost or mistyped passphrase makes encrypted files unrecoverable
+  if (name === "encryptionPassphrase") {
+    const confirmation = { value: "" };
+    if (
+      !Services.prompt.promptPassword(
+        getPromptParent(),
+        "S3 Sync",
+        "Confirm Encryption Passphrase (确认加密密码):",
+        confirmation,
+      )
+    ) {
+      return;
+    }
+    if (confirmation.value.trim() !== value) {
+      Services.prompt.alert(
+        getPromptParent(),
+        "S3 Sync",
+        "The passphrases do not match. (两次输入的密码不一致)",
+      );
+      return;
+    }
+  }
+
+  await SecretStore.fromPrefs().set(name, value);
+  updateSecretStatus();
+}
+
+export function clearSecret(name: SecretName) {
+  SecretStore.fromPrefs().remove(name);
+  updateSecretStatus();
+}
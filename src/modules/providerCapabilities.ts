@@ -0,0 +1,139 @@
+/**
+ * Provider Capabilities
+ * Caches what an S3-compatible endpoint supports, as found by
+ * S3Manager.probeCapabilities, so listing, uploads and the sync records can
+ * adapt to older gateways
+ */
+
+export interface ProviderCapabilities {
+  listObjectsV2: boolean; // false: ListObjects (v1) with marker paging
+  conditionalWrites: boolean; // PUT honours If-None-Match / If-Match
+  multipartUpload: boolean; // CreateMultipartUpload is implemented
+  versioning: boolean; // Bucket versioning is enabled
+  unsignedPayload: boolean; // UNSIGNED-PAYLOAD accepted over HTTPS
+  streamingPayload: boolean; // STREAMING-AWS4-HMAC-SHA256-PAYLOAD (aws-chunked) accepted
+  probedAt: number; // Probe time (ms)
+}
+
+export interface ProviderCapabilityStore {
+  providers: {
+    [providerId: string]: ProviderCapabilities; // Keyed by endpoint and bucket
+  };
+  version: number;
+}
+
+/**
+ * What is assumed until a probe says otherwise
+ */
+export const DEFAULT_CAPABILITIES: Omit<ProviderCapabilities, "probedAt"> = {
+  listObjectsV2: true,
+  conditionalWrites: true,
+  multipartUpload: true,
+  versioning: false,
+  unsignedPayload: true,
+  streamingPayload: true,
+};
+
+export class ProviderCapabilityCache {
+  private static readonly CACHE_KEY = "sync.capabilities";
+  private static readonly CACHE_VERSION = 2; // 2: payload signing modes
+  private static readonly MAX_AGE = 7 * 24 * 3600 * 1000; // Re-probe weekly
+
+  /**
+   * Load cached capabilities from Zotero preferences. Read on every access,
+   * as other S3Manager instances (e.g. the connection wizard's) write them
+   * too.
+   */
+  private loadStore(): ProviderCapabilityStore {
+    try {
+      const stored = Zotero.Prefs.get(
+        `extensions.zotero.s3sync.${ProviderCapabilityCache.CACHE_KEY}`,
+        true,
+      ) as string;
+
+      if (stored) {
+        const parsed = JSON.parse(stored) as ProviderCapabilityStore;
+        if (parsed.version === ProviderCapabilityCache.CACHE_VERSION) {
+          parsed.providers = parsed.providers || {};
+          return parsed;
+        }
+
+        ztoolkit.log("Capability cache version mismatch, discarding");
+      }
+    } catch (error) {
+      ztoolkit.log("Error loading capability cache:", error);
+    }
+
+    return { providers: {}, version: ProviderCapabilityCache.CACHE_VERSION };
+  }
+
+  /**
+   * Save cached capabilities to Zotero preferences
+   */
+  private saveStore(store: ProviderCapabilityStore): void {
+    try {
+      Zotero.Prefs.set(
+        `extensions.zotero.s3sync.${ProviderCapabilityCache.CACHE_KEY}`,
+        JSON.stringify(store),
+        true,
+      );
+    } catch (error) {
+      ztoolkit.log("Error saving capability cache:", error);
+    }
+  }
+
+  /**
+   * Cached capabilities of a provider, or null if never probed or stale
+   */
+  public get(providerId: string): ProviderCapabilities | null {
+    const capabilities = this.loadStore().providers[providerId];
+    if (
+      !capabilities ||
+      Date.now() - capabilities.probedAt > ProviderCapabilityCache.MAX_AGE
+    ) {
+      return null;
+    }
+    return capabilities;
+  }
+
+  public set(providerId: string, capabilities: ProviderCapabilities): void {
+    const store = this.loadStore();
+    store.providers[providerId] = capabilities;
+    this.saveStore(store);
+  }
+
+  /**
+   * Correct cached capabilities after a request showed them to be wrong,
+   * e.g. a ListObjectsV2 listing that stopped returning continuation tokens
+   */
+  public update(
+    providerId: string,
+    changes: Partial<Omit<ProviderCapabilities, "probedAt">>,
+  ): void {
+    const store = this.loadStore();
+    store.providers[providerId] = {
+      ...(store.providers[providerId] ?? {
+        ...DEFAULT_CAPABILITIES,
+        probedAt: Date.now(),
+      }),
+      ...changes,
+    };
+    this.saveStore(store);
+  }
+}
+
+/**
+ * One-line summary, e.g. for the connection test
+ */
+export function describeCapabilities(
+  capabilities: ProviderCapabilities,
+): string {
+  return [
+    capabilities.listObjectsV2 ? "ListObjectsV2" : "ListObjects (v1)",
+    `conditional writes: ${capabilities.conditionalWrites ? "yes" : "no"}`,
+    `multipart upload: ${capabilities.multipartUpload ? "yes" : "no"}`,
+    `versioning: ${capabilities.versioning ? "on" : "off"}`,
+    `unsigned payloads: ${capabilities.unsignedPayload ? "yes" : "no"}`,
+    `streaming payloads: ${capabilities.streamingPayload ? "yes" : "no"}`,
+  ].join(", ");
+}
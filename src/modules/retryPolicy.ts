@@ -0,0 +1,147 @@
+/**
+ * Retry Policy
+ * Exponential backoff with jitter for transient S3 failures
+ */
+
+import { getPref } from "../utils/prefs";
+import {
+  S3AbortError,
+  S3Error,
+  S3NetworkError,
+  S3ServerError,
+  S3SlowDownError,
+  S3TimeoutError,
+} from "./s3Errors";
+
+// Error codes S3 returns with a 4xx status that are still worth retrying
+const RETRYABLE_CODES = ["RequestTimeout", "InternalError"];
+
+export class RetryPolicy {
+  private static readonly BASE_DELAY = 500; // Milliseconds before the first retry
+  private static readonly DEFAULT_MAX_ATTEMPTS = 4;
+  private static readonly DEFAULT_MAX_DELAY = 20; // Seconds
+
+  public readonly maxAttempts: number;
+  public readonly maxDelay: number; // Milliseconds
+
+  constructor(maxAttempts: number, maxDelay: number) {
+    this.maxAttempts = Math.max(1, Math.floor(maxAttempts));
+    this.maxDelay = Math.max(0, maxDelay);
+  }
+
+  /**
+   * Build the policy from the s3.retryMaxAttempts / s3.retryMaxDelay prefs
+   */
+  public static fromPrefs(): RetryPolicy {
+    const attempts =
+      Number(getPref("s3.retryMaxAttempts")) ||
+      RetryPolicy.DEFAULT_MAX_ATTEMPTS;
+    const maxDelay = Number(getPref("s3.retryMaxDelay"));
+    return new RetryPolicy(
+      attempts,
+      (Number.isFinite(maxDelay) && maxDelay >= 0
+        ? maxDelay
+        : RetryPolicy.DEFAULT_MAX_DELAY) * 1000,
+    );
+  }
+
+  /**
+   * Whether a failed attempt may succeed if sent again
+   */
+  public isRetryable(error: unknown): boolean {
+    return (
+      error instanceof S3NetworkError ||
+      error instanceof S3TimeoutError ||
+      error instanceof S3SlowDownError ||
+      error instanceof S3ServerError ||
+      (error instanceof S3Error && RETRYABLE_CODES.includes(error.code))
+    );
+  }
+
+  /**
+   * Delay before the given retry (1-based), using "full jitter" backoff.
+   * A Retry-After from the server wins over the computed delay, capped at
+   * maxDelay so a misbehaving server cannot stall the sync.
+   */
+  public getDelay(retry: number, retryAfter?: number): number {
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.maxDelay);
+    }
+    const ceiling = Math.min(
+      this.maxDelay,
+      RetryPolicy.BASE_DELAY * Math.pow(2, retry - 1),
+    );
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  /**
+   * Run an operation, retrying transient failures.
+   * The operation is called again from scratch on every attempt, so callers
+   * must rebuild anything time-sensitive (such as the SigV4 signature)
+   * inside it. The last error is rethrown once attempts run out, and
+   * S3AbortError as soon as the signal aborts, including between attempts.
+   */
+  public async execute<T>(
+    operation: (attempt: number) => Promise<T>,
+    label: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw new S3AbortError();
+      }
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        if (attempt >= this.maxAttempts || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const retryAfter =
+          error instanceof S3Error ? error.retryAfter : undefined;
+        const delay = this.getDelay(attempt, retryAfter);
+        ztoolkit.log(
+          `${label} failed (attempt ${attempt}/${this.maxAttempts}), retrying in ${delay} ms`,
+        );
+        await this.wait(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Sleep between attempts, waking early when the signal aborts
+   */
+  private wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
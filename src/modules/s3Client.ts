@@ -1,4 +1,45 @@
 import { getPref } from "../utils/prefs";
+import { md5Base64 } from "../utils/hash";
+import { TransferStateManager } from "./transferState";
+import { RetryPolicy, parseRetryAfter } from "./retryPolicy";
+import {
+  CredentialProvider,
+  S3Credentials,
+  createCredentialProvider,
+} from "./credentials";
+import { loadAwsProfile } from "./awsProfile";
+import {
+  COMPRESSION_METADATA_KEY,
+  CompressionFormat,
+  decompressBytes,
+  parseCompressionFormat,
+} from "./compression";
+import { SecretStore } from "./secretStore";
+import { S3Response, S3Transport, XhrTransport } from "./s3Transport";
+import { BandwidthLimiter } from "./bandwidthLimiter";
+import {
+  DEFAULT_CAPABILITIES,
+  ProviderCapabilities,
+  ProviderCapabilityCache,
+} from "./providerCapabilities";
+import {
+  S3EncryptionUsage,
+  ServerSideEncryption,
+} from "./serverSideEncryption";
+import {
+  S3AbortError,
+  S3AccessDeniedError,
+  S3ClockSkewError,
+  S3EncryptionError,
+  S3Error,
+  S3ExpiredCredentialsError,
+  S3NotConfiguredError,
+  S3NotFoundError,
+  S3PreconditionFailedError,
+  createS3Error,
+  describeError,
+  isNotImplemented,
+} from "./s3Errors";
 
 export interface S3FileMetadata {
   key: string;
@@ -6,33 +47,153 @@ export interface S3FileMetadata {
   size: number;
   etag: string; // S3's ETag (MD5 hash for simple uploads)
   metaMd5?: string; // Custom checksum stored as x-amz-meta-md5
+  compression?: CompressionFormat; // Set when the stored body is compressed (HEAD only)
+  storageClass?: string; // Omitted by most providers for STANDARD
+  restore?: "ongoing" | "restored"; // Archive restore state from x-amz-restore (HEAD only)
+}
+
+export interface S3UploadOptions {
+  contentType?: string;
+  contentMd5?: string; // Stored as x-amz-meta-md5
+  compression?: CompressionFormat; // Marks an already-compressed body
+  storageClass?: string; // Sent as x-amz-storage-class
+  tags?: Record<string, string>; // S3 object tags, sent as x-amz-tagging
+  ifMatch?: string; // Only overwrite the object with this ETag (single PUT only)
+  ifNoneMatch?: boolean; // Only create the object if it does not exist (single PUT only)
+  signal?: AbortSignal; // Cancels the upload; multipart progress is kept for resuming
+  onProgress?: (progress: number) => void;
+}
+
+export interface S3DownloadOptions {
+  versionId?: string; // Download an earlier version of a versioned object
+  signal?: AbortSignal; // Cancels the download; the partial file is kept for resuming
+  onProgress?: (progress: number) => void;
+}
+
+export interface S3ObjectVersion {
+  key: string;
+  versionId: string; // "null" for objects written before versioning was enabled
+  lastModified: number;
+  size: number;
+  etag: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+}
+
+export interface S3DeleteResult {
+  deleted: string[]; // Keys the server confirmed as deleted
+  errors: Map<string, S3Error>; // Keys that could not be deleted
+}
+
+export interface S3PresignOptions {
+  expiresIn?: number; // Seconds, capped at S3's limit of 7 days
+  filename?: string; // Returned as the Content-Disposition filename
+  contentType?: string; // Overrides the stored Content-Type
+  contentEncoding?: string; // Lets browsers decompress a compressed object
+}
+
+export type S3AddressingStyle = "path" | "virtual";
+
+/**
+ * How a request body is covered by the signature: hashed in full, not at
+ * all (UNSIGNED-PAYLOAD), or per chunk as it is framed (aws-chunked)
+ */
+export type S3PayloadSigning = "signed" | "unsigned" | "streaming";
+
+interface S3RequestInit {
+  key?: string; // Object key or resource, attached to errors for context
+  headers?: Record<string, string>;
+  body?: Uint8Array;
+  responseType?: "text" | "arraybuffer";
+  timeout?: number; // Milliseconds, 0 for none
+  signal?: AbortSignal; // Cancels the request and any pending retries
+  encryption?: S3EncryptionUsage; // Adds server-side encryption headers
+  payloadSigning?: S3PayloadSigning; // For the body, default "signed"
+  onUploadProgress?: (loaded: number, total: number) => void;
 }
 
 export class S3Manager {
   private endpoint: string = "";
   private region: string = "";
-  private accessKeyId: string = "";
-  private secretAccessKey: string = "";
+  private credentialProvider: CredentialProvider = createCredentialProvider();
   private bucketName: string = "";
-
-  constructor() {
-    this.initializeClient();
+  private addressingStyle: S3AddressingStyle = "path";
+  private transferState = new TransferStateManager();
+  private retryPolicy = RetryPolicy.fromPrefs();
+  private encryption = new ServerSideEncryption("none");
+  private connectTimeout = 0; // Milliseconds, 0 for none
+  private idleTimeout = 0; // Milliseconds, 0 for none
+  private bandwidth = new BandwidthLimiter(); // Shared by concurrent transfers
+  private capabilityCache = new ProviderCapabilityCache();
+  private clockOffset = 0; // Server clock minus local clock (ms), from RequestTimeTooSkewed
+  private signingKey: { scope: string; key: Uint8Array } | null = null; // Derived SigV4 key, valid for one day
+  private configLoaded: Promise<void>; // Settles once an AWS profile has been read
+
+  private static readonly MB = 1024 * 1024;
+  private static readonly MIN_PART_SIZE = 5 * S3Manager.MB; // S3 minimum except last part
+  private static readonly MAX_PARTS = 10000;
+  private static readonly MAX_DELETE_KEYS = 1000; // DeleteObjects limit per request
+  private static readonly MAX_PRESIGN_EXPIRY = 7 * 24 * 3600; // SigV4 query signing limit
+  private static readonly UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+  private static readonly STREAMING_PAYLOAD =
+    "STREAMING-AWS4-HMAC-SHA256-PAYLOAD";
+  private static readonly STREAMING_CHUNK_SIZE = 64 * 1024; // aws-chunked frame size
+  // Header values that must never reach the debug log
+  private static readonly REDACTED_HEADERS = [
+    "x-amz-security-token",
+    "x-amz-server-side-encryption-customer-key",
+    "x-amz-server-side-encryption-customer-key-md5",
+  ];
+  public static readonly PROBE_OBJECT = ".s3sync-capability-probe"; // Written and removed by probeCapabilities
+
+  constructor(private transport: S3Transport = new XhrTransport()) {
+    this.configLoaded = this.initializeClient();
   }
 
-  private initializeClient(): void {
+  /**
+   * Read the settings. Only migrating legacy secrets and reading an AWS
+   * profile wait on I/O; otherwise all values are applied synchronously.
+   */
+  private async initializeClient(): Promise<void> {
     try {
       // Trim all configuration values to remove leading/trailing whitespace
       this.endpoint = ((getPref("s3.endpoint") as string) || "").trim();
       this.region = ((getPref("s3.region") as string) || "").trim();
-      this.accessKeyId = ((getPref("s3.accessKeyId") as string) || "").trim();
-      this.secretAccessKey = ((getPref("s3.secretAccessKey") as string) || "").trim();
+
+      // Secrets saved by older versions are still in plaintext prefs
+      const secrets = SecretStore.fromPrefs();
+      if (secrets.hasLegacySecrets()) {
+        await secrets.migrateFromPrefs();
+      }
+      this.encryption = ServerSideEncryption.fromPrefs(secrets);
+
+      // In profile mode the AWS shared files are re-read on every reload and
+      // their region / endpoint_url take precedence over the prefs
+      const profile =
+        getPref("s3.credentialSource") === "profile"
+          ? await loadAwsProfile(
+              ((getPref("s3.awsProfile") as string) || "").trim() || "default",
+            )
+          : null;
+      if (profile) {
+        this.region = profile.region || this.region;
+        this.endpoint =
+          profile.endpointUrl ||
+          this.endpoint ||
+          `https://s3.${this.region}.amazonaws.com`;
+        ztoolkit.log(`Using AWS profile: ${profile.name}`);
+      }
+      this.credentialProvider = createCredentialProvider(profile);
       this.bucketName = ((getPref("s3.bucketName") as string) || "").trim();
+      this.addressingStyle = this.resolveAddressingStyle();
+      this.retryPolicy = RetryPolicy.fromPrefs();
+      this.connectTimeout = this.getTimeoutPref("s3.connectTimeout", 30);
+      this.idleTimeout = this.getTimeoutPref("s3.idleTimeout", 60);
 
       if (
         !this.endpoint ||
         !this.region ||
-        !this.accessKeyId ||
-        !this.secretAccessKey ||
+        !this.credentialProvider.isConfigured() ||
         !this.bucketName
       ) {
         ztoolkit.log("S3 configuration incomplete");
@@ -45,34 +206,148 @@ export class S3Manager {
     }
   }
 
+  /**
+   * Read a timeout pref in seconds; 0 disables the timeout
+   */
+  private getTimeoutPref(
+    key: "s3.connectTimeout" | "s3.idleTimeout",
+    fallback: number,
+  ): number {
+    const seconds = Number(getPref(key));
+    return (
+      (Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback) * 1000
+    );
+  }
+
   public isConfigured(): boolean {
     return !!(
       this.endpoint &&
       this.region &&
-      this.accessKeyId &&
-      this.secretAccessKey &&
+      this.credentialProvider.isConfigured() &&
       this.bucketName
     );
   }
 
-  public reloadConfig(): void {
-    this.initializeClient();
+  /**
+   * Re-read the settings; resolves once they are applied
+   */
+  public reloadConfig(): Promise<void> {
+    // A new secret may come with the same access key ID
+    this.signingKey = null;
+    this.configLoaded = this.initializeClient();
+    return this.configLoaded;
+  }
+
+  /**
+   * Resolves once the settings are applied. Until then isConfigured() does
+   * not reflect a selected AWS profile, which is read from disk.
+   */
+  public whenLoaded(): Promise<void> {
+    return this.configLoaded;
+  }
+
+  private async ensureConfigured(): Promise<void> {
+    await this.configLoaded;
+    if (!this.isConfigured()) {
+      ztoolkit.log("S3 client not configured");
+      throw new S3NotConfiguredError();
+    }
   }
 
   private encodeKey(key: string): string {
     // Encode each segment so special chars are signed correctly while keeping '/'
     return key
       .split("/")
-      .map((segment) => encodeURIComponent(segment))
+      .map((segment) => this.uriEncode(segment))
       .join("/");
   }
 
-  private getUrl(key: string): string {
+  /**
+   * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+   */
+  private uriEncode(value: string): string {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+  }
+
+  /**
+   * Build the SigV4 canonical query string: encoded pairs sorted by name
+   */
+  private canonicalQueryString(search: string): string {
+    const pairs = Array.from(new URLSearchParams(search).entries()).map(
+      ([name, value]) => `${this.uriEncode(name)}=${this.uriEncode(value)}`,
+    );
+    return pairs.sort().join("&");
+  }
+
+  /**
+   * Pick path-style or virtual-hosted-style addressing.
+   * "auto" uses virtual-hosted style for providers that require it (AWS,
+   * Aliyun OSS, Tencent COS) and path style for everything else, e.g. MinIO.
+   */
+  private resolveAddressingStyle(): S3AddressingStyle {
+    const setting = ((getPref("s3.addressingStyle") as string) || "auto")
+      .trim()
+      .toLowerCase();
+    if (setting === "path" || setting === "virtual") {
+      return setting;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(this.endpoint);
+    } catch (error) {
+      return "path";
+    }
+
+    // Bucket names that are not valid DNS labels only work path-style, and
+    // dotted names break TLS wildcard certificates on virtual hosts
+    const dnsCompatible = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(
+      this.bucketName,
+    );
+    if (
+      !dnsCompatible ||
+      (this.bucketName.includes(".") && url.protocol === "https:")
+    ) {
+      return "path";
+    }
+
+    const host = url.hostname.toLowerCase();
+    const virtualHostedProviders = [
+      "amazonaws.com",
+      "amazonaws.com.cn",
+      "aliyuncs.com",
+      "myqcloud.com",
+    ];
+    return virtualHostedProviders.some(
+      (suffix) => host === suffix || host.endsWith(`.${suffix}`),
+    )
+      ? "virtual"
+      : "path";
+  }
+
+  /**
+   * Base URL of the bucket
+   * Path style:    https://endpoint/bucket-name
+   * Virtual style: https://bucket-name.endpoint
+   */
+  private getBucketUrl(): string {
     const endpoint = this.endpoint.replace(/\/$/, "");
-    // Force path-style URLs for all S3 services (including AWS)
-    // Format: https://endpoint/bucket-name/key
+    if (this.addressingStyle === "path") {
+      return `${endpoint}/${this.bucketName}`;
+    }
+
+    const url = new URL(endpoint);
+    const basePath = url.pathname.replace(/\/$/, "");
+    return `${url.protocol}//${this.bucketName}.${url.host}${basePath}`;
+  }
+
+  private getUrl(key: string, versionId?: string): string {
     const encodedKey = this.encodeKey(key);
-    return `${endpoint}/${this.bucketName}/${encodedKey}`;
+    const url = `${this.getBucketUrl()}/${encodedKey}`;
+    return versionId ? `${url}?versionId=${this.uriEncode(versionId)}` : url;
   }
 
   private async sha256Hex(data: string | Uint8Array): Promise<string> {
@@ -88,27 +363,44 @@ export class S3Manager {
     ).join("");
   }
 
+  /**
+   * Sign a request with SigV4. Streaming signing replaces the body with its
+   * aws-chunked framing, so the caller must send the returned body.
+   */
   private async signRequest(
     method: string,
     url: string,
     headers: Record<string, string>,
     body?: Uint8Array,
-  ): Promise<Record<string, string>> {
+    payloadSigning: S3PayloadSigning = "signed",
+  ): Promise<{ headers: Record<string, string>; body?: Uint8Array }> {
     const urlObj = new URL(url);
     const host = urlObj.host;
     const path = urlObj.pathname || "/";
-    const queryString = urlObj.search.slice(1); // Remove leading '?'
+    const queryString = this.canonicalQueryString(urlObj.search);
 
-    const dateTime = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateTime = this.getAmzDateTime();
     const date = dateTime.substr(0, 8);
+    const credentials = await this.credentialProvider.getCredentials();
 
     headers["Host"] = host;
     headers["x-amz-date"] = dateTime;
+    if (credentials.sessionToken) {
+      headers["x-amz-security-token"] = credentials.sessionToken;
+    }
 
-    // Calculate content hash
-    const contentHash = body
-      ? await this.sha256Hex(body)
-      : await this.sha256Hex(new Uint8Array(0));
+    // Calculate content hash; unsigned and streaming payloads skip the
+    // separate pass over the body
+    let contentHash: string;
+    if (body && payloadSigning === "unsigned") {
+      contentHash = S3Manager.UNSIGNED_PAYLOAD;
+    } else if (body && payloadSigning === "streaming") {
+      contentHash = S3Manager.STREAMING_PAYLOAD;
+      headers["Content-Encoding"] = "aws-chunked";
+      headers["x-amz-decoded-content-length"] = String(body.length);
+    } else {
+      contentHash = await this.sha256Hex(body ?? new Uint8Array(0));
+    }
     headers["x-amz-content-sha256"] = contentHash;
 
     // Create canonical request
@@ -129,7 +421,7 @@ export class S3Manager {
     ztoolkit.log(`  Method: ${method}`);
     ztoolkit.log(`  Path: ${path}`);
     ztoolkit.log(`  Query: ${queryString}`);
-    ztoolkit.log(`  Headers: ${canonicalHeaders}`);
+    ztoolkit.log(`  Headers: ${this.redactHeaders(canonicalHeaders)}`);
 
     // Create string to sign
     const canonicalRequestHash = await this.sha256Hex(canonicalRequest);
@@ -137,31 +429,204 @@ export class S3Manager {
     const stringToSign = `AWS4-HMAC-SHA256\n${dateTime}\n${scope}\n${canonicalRequestHash}`;
 
     // Calculate signature
-    const signature = await this.calculateSignature(date, stringToSign);
+    const signature = await this.calculateSignature(
+      credentials,
+      date,
+      stringToSign,
+    );
 
     // Add authorization header
     headers["Authorization"] =
-      `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    if (contentHash === S3Manager.STREAMING_PAYLOAD) {
+      body = await this.encodeChunkedBody(body!, signature, {
+        credentials,
+        date,
+        dateTime,
+        scope,
+      });
+    }
+    return { headers, body };
+  }
 
-    return headers;
+  /**
+   * Canonical header lines with the values of secret headers replaced, for
+   * the debug log
+   */
+  private redactHeaders(canonicalHeaders: string): string {
+    return canonicalHeaders
+      .split("\n")
+      .map((line) => {
+        const name = line.slice(0, line.indexOf(":"));
+        return S3Manager.REDACTED_HEADERS.includes(name)
+          ? `${name}:<redacted>`
+          : line;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Frame a body as aws-chunked for STREAMING-AWS4-HMAC-SHA256-PAYLOAD.
+   * Each chunk is hashed, signed with the previous chunk's signature,
+   * starting from the request signature, and written straight into an
+   * output buffer sized up front; a final empty chunk ends the body.
+   */
+  private async encodeChunkedBody(
+    body: Uint8Array,
+    seedSignature: string,
+    context: {
+      credentials: S3Credentials;
+      date: string;
+      dateTime: string;
+      scope: string;
+    },
+  ): Promise<Uint8Array> {
+    const chunkSize = S3Manager.STREAMING_CHUNK_SIZE;
+    const emptyHash = await this.sha256Hex(new Uint8Array(0));
+    const encoder = new TextEncoder();
+    const crlf = encoder.encode("\r\n");
+    const encoded = new Uint8Array(
+      S3Manager.getChunkedBodyLength(body.length, chunkSize),
+    );
+    let position = 0;
+    let previousSignature = seedSignature;
+
+    for (let offset = 0; ; offset += chunkSize) {
+      const chunk = body.subarray(offset, offset + chunkSize);
+      const chunkHash = await this.sha256Hex(chunk);
+      const stringToSign = `AWS4-HMAC-SHA256-PAYLOAD\n${context.dateTime}\n${context.scope}\n${previousSignature}\n${emptyHash}\n${chunkHash}`;
+      previousSignature = await this.calculateSignature(
+        context.credentials,
+        context.date,
+        stringToSign,
+      );
+
+      const header = encoder.encode(
+        `${chunk.length.toString(16)};chunk-signature=${previousSignature}\r\n`,
+      );
+      encoded.set(header, position);
+      position += header.length;
+      encoded.set(chunk, position);
+      position += chunk.length;
+      encoded.set(crlf, position);
+      position += crlf.length;
+      if (chunk.length === 0) {
+        break;
+      }
+    }
+    return encoded;
+  }
+
+  /**
+   * Size of a body framed as aws-chunked: every chunk, including the final
+   * empty one, carries a hex length, a 64-digit signature and two CRLFs
+   */
+  private static getChunkedBodyLength(
+    length: number,
+    chunkSize: number,
+  ): number {
+    const frameLength = (size: number) =>
+      size.toString(16).length + ";chunk-signature=".length + 64 + 4 + size;
+    const fullChunks = Math.floor(length / chunkSize);
+    const remainder = length % chunkSize;
+    return (
+      fullChunks * frameLength(chunkSize) +
+      (remainder ? frameLength(remainder) : 0) +
+      frameLength(0)
+    );
+  }
+
+  /**
+   * How upload bodies are signed. "auto" uses UNSIGNED-PAYLOAD over HTTPS,
+   * where TLS already protects the body, and aws-chunked streaming
+   * signatures over plain HTTP; modes the provider was found not to
+   * support (see probeCapabilities) fall back to a fully hashed payload.
+   */
+  private getPayloadSigning(): S3PayloadSigning {
+    const preference = (getPref("s3.payloadSigning") as string) || "auto";
+    const capabilities = this.getCapabilities();
+    const unsigned =
+      this.endpoint.toLowerCase().startsWith("https:") &&
+      capabilities?.unsignedPayload !== false;
+    const streaming = capabilities?.streamingPayload !== false;
+
+    switch (preference) {
+      case "signed":
+        return "signed";
+      case "unsigned":
+        return unsigned ? "unsigned" : "signed";
+      case "streaming":
+        return streaming ? "streaming" : "signed";
+      default:
+        return unsigned ? "unsigned" : streaming ? "streaming" : "signed";
+    }
+  }
+
+  /**
+   * Signing time in the ISO 8601 basic format of x-amz-date, corrected by
+   * the offset to the server's clock
+   */
+  private getAmzDateTime(): string {
+    return new Date(Date.now() + this.clockOffset)
+      .toISOString()
+      .replace(/[:-]|\.\d{3}/g, "");
+  }
+
+  /**
+   * Learn the offset to the server's clock from the Date header of a
+   * RequestTimeTooSkewed response. Returns false when the header is
+   * missing or unparseable, so the request is not retried.
+   */
+  private updateClockOffset(response: S3Response): boolean {
+    const serverTime = Date.parse(response.getHeader("Date") || "");
+    if (Number.isNaN(serverTime)) {
+      return false;
+    }
+    this.clockOffset = serverTime - Date.now();
+    ztoolkit.log(
+      `Clock skew detected, signing with an offset of ${Math.round(this.clockOffset / 1000)}s`,
+    );
+    return true;
   }
 
   private async calculateSignature(
+    credentials: S3Credentials,
     date: string,
     stringToSign: string,
   ): Promise<string> {
+    const key = await this.getSigningKey(credentials, date);
+    const signatureBytes = await this.hmacSha256Bytes(key, stringToSign);
+
+    return Array.from(signatureBytes, (byte) =>
+      ("0" + byte.toString(16)).slice(-2),
+    ).join("");
+  }
+
+  /**
+   * The derived SigV4 key only changes with the credentials, date, region
+   * and service, so the HMAC chain is computed once a day instead of for
+   * every request. The cache is keyed by the access key ID, never by the
+   * secret; temporary credentials get a new ID on every refresh.
+   */
+  private async getSigningKey(
+    credentials: S3Credentials,
+    date: string,
+  ): Promise<Uint8Array> {
+    const scope = `${credentials.accessKeyId}/${date}/${this.region}/s3`;
+    if (this.signingKey?.scope === scope) {
+      return this.signingKey.key;
+    }
+
     let key: Uint8Array = await this.hmacSha256(
-      `AWS4${this.secretAccessKey}`,
+      `AWS4${credentials.secretAccessKey}`,
       date,
     );
     key = await this.hmacSha256Bytes(key, this.region);
     key = await this.hmacSha256Bytes(key, "s3");
     key = await this.hmacSha256Bytes(key, "aws4_request");
-    const signatureBytes = await this.hmacSha256Bytes(key, stringToSign);
-
-    return Array.from(signatureBytes, (byte) =>
-      ("0" + byte.toString(16)).slice(-2),
-    ).join("");
+    this.signingKey = { scope, key };
+    return key;
   }
 
   private async hmacSha256(key: string, data: string): Promise<Uint8Array> {
@@ -188,349 +653,870 @@ export class S3Manager {
     return new Uint8Array(signature);
   }
 
-  public async uploadFile(
-    file: Blob,
-    key: string,
-    onProgress?: (progress: number) => void,
-    contentMd5?: string,
-  ): Promise<boolean> {
-    if (!this.isConfigured()) {
-      ztoolkit.log("S3 client not configured");
-      return false;
+  /**
+   * Send a request, retrying transient failures with backoff.
+   * Rejects with the last typed S3Error once retries are exhausted.
+   */
+  private async sendRequest(
+    method: string,
+    url: string,
+    init: S3RequestInit = {},
+  ): Promise<S3Response> {
+    // Each attempt is signed again so x-amz-date stays within S3's window
+    // and picks up refreshed credentials
+    let refreshed = false;
+    let clockCorrected = false;
+    return this.retryPolicy.execute(
+      async () => {
+        try {
+          return await this.sendSignedRequest(method, url, init);
+        } catch (error) {
+          // Temporary credentials can lapse mid-sync; reload them once and
+          // resend instead of failing the transfer
+          if (error instanceof S3ExpiredCredentialsError && !refreshed) {
+            refreshed = true;
+            ztoolkit.log("Credentials expired, refreshing");
+            await this.credentialProvider.getCredentials(true);
+            return await this.sendSignedRequest(method, url, init);
+          }
+          // sendSignedRequest has already taken the offset from the
+          // server's Date header; sign once more with the corrected time
+          if (
+            error instanceof S3ClockSkewError &&
+            error.clockCorrected &&
+            !clockCorrected
+          ) {
+            clockCorrected = true;
+            return await this.sendSignedRequest(method, url, init);
+          }
+          // S3 answers a read with the wrong SSE-C key with a bare 403
+          if (
+            error instanceof S3AccessDeniedError &&
+            init.encryption === "read" &&
+            this.encryption.mode === "SSE-C"
+          ) {
+            throw new S3EncryptionError(
+              "Access denied; the SSE-C key may not match the key the object was uploaded with",
+              {
+                code: "EncryptionKeyMismatch",
+                status: error.status,
+                requestId: error.requestId,
+                key: error.key,
+              },
+            );
+          }
+          throw error;
+        }
+      },
+      `S3 ${method} ${init.key ?? url}`,
+      init.signal,
+    );
+  }
+
+  /**
+   * Sign and send a single request attempt.
+   * Rejects with a typed S3Error on network failure, timeout, cancellation
+   * or any non-2xx response.
+   */
+  private async sendSignedRequest(
+    method: string,
+    url: string,
+    init: S3RequestInit,
+  ): Promise<S3Response> {
+    // Bodies are paced before signing, so x-amz-date is not stale after a
+    // long wait, and responses after receiving, so a large response delays
+    // the next request of this manager
+    const bodyLength = init.body?.length ?? 0;
+    if (bodyLength) {
+      await this.bandwidth.throttle("upload", bodyLength, init.signal);
     }
 
+    const headers = { ...init.headers };
+    if (init.encryption) {
+      Object.assign(headers, this.encryption.getHeaders(init.encryption));
+    }
+    let sentFraction = 0;
+    let response: S3Response;
     try {
-      const url = this.getUrl(key);
-      const arrayBuffer = await file.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-
-      const headers: Record<string, string> = {
-        "Content-Type": file.type || "application/octet-stream",
-      };
-      if (contentMd5) {
-        headers["x-amz-meta-md5"] = contentMd5;
-      }
-
-      const signedHeaders = await this.signRequest(
-        "PUT",
+      const signed = await this.signRequest(
+        method,
         url,
         headers,
-        uint8Array,
+        init.body,
+        init.payloadSigning,
       );
-
-      const xhr = new XMLHttpRequest();
-      xhr.open("PUT", url, true);
-
-      // Set headers
-      Object.keys(signedHeaders).forEach((key) => {
-        xhr.setRequestHeader(key, signedHeaders[key]);
+      response = await this.transport.send({
+        method,
+        url,
+        headers: signed.headers,
+        body: signed.body,
+        responseType: init.responseType,
+        timeout: init.timeout,
+        connectTimeout: this.connectTimeout,
+        idleTimeout: this.idleTimeout,
+        signal: init.signal,
+        key: init.key,
+        onUploadProgress: (loaded, total) => {
+          sentFraction = total ? loaded / total : 0;
+          init.onUploadProgress?.(loaded, total);
+        },
       });
-
-      // Progress tracking
-      if (onProgress) {
-        xhr.upload.addEventListener("progress", (e: any) => {
-          if (e.lengthComputable) {
-            const percent = (e.loaded / e.total) * 100;
-            onProgress(percent);
-          }
-        });
+    } catch (error) {
+      // Only the bytes that went out count against the limit, so a retry
+      // is not charged for the same body twice
+      this.bandwidth.refund(
+        "upload",
+        Math.round(bodyLength * (1 - sentFraction)),
+      );
+      throw error;
+    }
+    if (response.status >= 200 && response.status < 300) {
+      if (response.body instanceof ArrayBuffer) {
+        await this.bandwidth.throttle(
+          "download",
+          response.body.byteLength,
+          init.signal,
+        );
       }
+      return response;
+    }
 
-      return new Promise((resolve, reject) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            ztoolkit.log(`File uploaded successfully: ${key}`);
-            resolve(true);
-          } else {
-            ztoolkit.log(
-              `Failed to upload file ${key}: ${xhr.status} ${xhr.statusText}`,
-            );
-            resolve(false);
-          }
-        };
-
-        xhr.onerror = () => {
-          ztoolkit.log(`Network error uploading file ${key}`);
-          resolve(false);
-        };
-
-        xhr.send(uint8Array);
-      });
-    } catch (error) {
-      ztoolkit.log(`Failed to upload file ${key}:`, error);
-      return false;
+    // Binary response types still carry the XML error document
+    const errorText =
+      response.body instanceof ArrayBuffer
+        ? new TextDecoder().decode(response.body)
+        : response.text;
+    const error = createS3Error(
+      response.status,
+      errorText,
+      init.key,
+      response.getHeader("x-amz-request-id"),
+      parseRetryAfter(response.getHeader("Retry-After")),
+    );
+    if (error instanceof S3ClockSkewError) {
+      error.clockCorrected = this.updateClockOffset(response);
     }
+    ztoolkit.log(`S3 ${method} ${url} failed: ${error.describe()}`);
+    throw error;
   }
 
-  public async downloadFile(key: string): Promise<Blob | null> {
-    if (!this.isConfigured()) {
-      ztoolkit.log("S3 client not configured");
-      return null;
+  /**
+   * Upload a blob with a single PUT.
+   * With ifMatch / ifNoneMatch the write is conditional and rejects with
+   * S3PreconditionFailedError when the object changed in the meantime.
+   * Resolves with the new object's ETag.
+   */
+  public async uploadFile(
+    file: Blob,
+    key: string,
+    options: S3UploadOptions = {},
+  ): Promise<string> {
+    await this.ensureConfigured();
+
+    const body = new Uint8Array(await file.arrayBuffer());
+    const onProgress = options.onProgress;
+    const headers = this.getUploadHeaders({
+      contentType: file.type || undefined,
+      ...options,
+    });
+    if (options.ifMatch) {
+      headers["If-Match"] = options.ifMatch;
+    } else if (options.ifNoneMatch) {
+      headers["If-None-Match"] = "*";
     }
 
-    try {
-      const url = this.getUrl(key);
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("GET", url, headers);
+    const response = await this.sendRequest("PUT", this.getUrl(key), {
+      key,
+      headers,
+      body,
+      encryption: "write",
+      payloadSigning: this.getPayloadSigning(),
+      signal: options.signal,
+      onUploadProgress: onProgress
+        ? (loaded, total) => onProgress((loaded / total) * 100)
+        : undefined,
+    });
+    ztoolkit.log(`File uploaded successfully: ${key}`);
+    return response.getHeader("ETag") || "";
+  }
 
-      const xhr = new XMLHttpRequest();
-      xhr.open("GET", url, true);
-      xhr.responseType = "blob";
+  /**
+   * Upload a file from disk, switching to a resumable multipart upload
+   * once the file reaches the configured threshold.
+   * Resolves with the new object's ETag.
+   */
+  public async uploadFileFromPath(
+    filePath: string,
+    key: string,
+    options: S3UploadOptions = {},
+  ): Promise<string> {
+    await this.ensureConfigured();
 
-      Object.keys(signedHeaders).forEach((key) => {
-        xhr.setRequestHeader(key, signedHeaders[key]);
-      });
+    const info = await IOUtils.stat(filePath);
+    const size = info.size ?? 0;
 
-      return new Promise((resolve) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            ztoolkit.log(`File downloaded successfully: ${key}`);
-            resolve(xhr.response);
-          } else {
-            ztoolkit.log(`Failed to download file ${key}: ${xhr.status}`);
-            resolve(null);
-          }
-        };
+    if (
+      size < this.getMultipartThreshold() ||
+      this.getCapabilities()?.multipartUpload === false
+    ) {
+      const bytes = await IOUtils.read(filePath);
+      return this.uploadFile(new Blob([bytes]), key, options);
+    }
 
-        xhr.onerror = () => {
-          ztoolkit.log(`Network error downloading file ${key}`);
-          resolve(null);
-        };
+    const fingerprint = `${size}:${info.lastModified ?? 0}:${options.contentMd5 || ""}`;
+    return this.uploadMultipart(filePath, key, size, fingerprint, options);
+  }
 
-        xhr.send();
-      });
-    } catch (error) {
-      ztoolkit.log(`Failed to download file ${key}:`, error);
-      return null;
+  /**
+   * Content-Type and x-amz-meta-* headers for PUT and CreateMultipartUpload
+   */
+  private getUploadHeaders(options: S3UploadOptions): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": options.contentType || "application/octet-stream",
+    };
+    if (options.contentMd5) {
+      headers["x-amz-meta-md5"] = options.contentMd5;
+    }
+    if (options.compression) {
+      headers[`x-amz-meta-${COMPRESSION_METADATA_KEY}`] = options.compression;
+    }
+    if (options.storageClass) {
+      headers["x-amz-storage-class"] = options.storageClass;
+    }
+    if (options.tags && Object.keys(options.tags).length > 0) {
+      headers["x-amz-tagging"] = Object.entries(options.tags)
+        .map(
+          ([name, value]) => `${this.uriEncode(name)}=${this.uriEncode(value)}`,
+        )
+        .join("&");
     }
+    return headers;
   }
 
-  public async fileExists(key: string): Promise<boolean> {
-    if (!this.isConfigured()) {
-      return false;
+  private getMultipartThreshold(): number {
+    // A limited upload is paced per request, so send it in minimum-size parts
+    if (this.bandwidth.isLimited("upload")) {
+      return S3Manager.MIN_PART_SIZE;
     }
+    const thresholdMB = (getPref("s3.multipartThreshold") as number) || 64;
+    return Math.max(thresholdMB * S3Manager.MB, S3Manager.MIN_PART_SIZE);
+  }
 
-    try {
-      const url = this.getUrl(key);
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("HEAD", url, headers);
-
-      const xhr = new XMLHttpRequest();
-      xhr.open("HEAD", url, true);
-
-      Object.keys(signedHeaders).forEach((key) => {
-        xhr.setRequestHeader(key, signedHeaders[key]);
-      });
-
-      return new Promise((resolve) => {
-        xhr.onload = () => {
-          resolve(xhr.status >= 200 && xhr.status < 300);
-        };
-
-        xhr.onerror = () => {
-          resolve(false);
-        };
-
-        xhr.send();
-      });
-    } catch (error) {
-      return false;
-    }
+  private getPartSize(fileSize: number): number {
+    const partSizeMB = this.bandwidth.isLimited("upload")
+      ? 0
+      : (getPref("s3.multipartPartSize") as number) || 8;
+    const partSize = Math.max(
+      partSizeMB * S3Manager.MB,
+      S3Manager.MIN_PART_SIZE,
+    );
+    // Grow parts for very large files so we stay under the part count limit
+    return Math.max(partSize, Math.ceil(fileSize / S3Manager.MAX_PARTS));
   }
 
-  public async getFileModTime(key: string): Promise<number> {
-    if (!this.isConfigured()) {
-      return 0;
+  /**
+   * Upload a file in parts, skipping parts already recorded for this file
+   * version by an earlier, interrupted run
+   */
+  private async uploadMultipart(
+    filePath: string,
+    key: string,
+    size: number,
+    fingerprint: string,
+    options: S3UploadOptions,
+  ): Promise<string> {
+    let record = this.transferState.getUpload(key);
+
+    if (record && record.fingerprint !== fingerprint) {
+      // File changed since the interrupted upload started, start over
+      ztoolkit.log(`Discarding stale multipart upload for ${key}`);
+      await this.abortMultipartUpload(key, record.uploadId).catch(() => {});
+      this.transferState.removeUpload(key);
+      record = null;
     }
 
-    try {
-      const url = this.getUrl(key);
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("HEAD", url, headers);
+    if (record) {
+      ztoolkit.log(
+        `Resuming multipart upload for ${key}: ${record.parts.length} parts done`,
+      );
+    } else {
+      const uploadId = await this.createMultipartUpload(key, options);
+      record = this.transferState.startUpload(
+        key,
+        uploadId,
+        fingerprint,
+        this.getPartSize(size),
+      );
+    }
 
-      const xhr = new XMLHttpRequest();
-      xhr.open("HEAD", url, true);
+    const { uploadId, partSize } = record;
+    const partCount = Math.max(1, Math.ceil(size / partSize));
+    const doneParts = new Set(record.parts.map((p) => p.partNumber));
+    let uploadedBytes = 0;
+    let etag: string;
 
-      Object.keys(signedHeaders).forEach((key) => {
-        xhr.setRequestHeader(key, signedHeaders[key]);
-      });
+    try {
+      for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+        const offset = (partNumber - 1) * partSize;
+        const length = Math.min(partSize, size - offset);
 
-      return new Promise((resolve) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            // Get Last-Modified header
-            const lastModified = xhr.getResponseHeader("Last-Modified");
-            if (lastModified) {
-              const modTime = new Date(lastModified).getTime();
-              resolve(modTime);
-            } else {
-              resolve(0);
-            }
-          } else {
-            resolve(0);
-          }
-        };
+        if (doneParts.has(partNumber)) {
+          uploadedBytes += length;
+          continue;
+        }
 
-        xhr.onerror = () => {
-          resolve(0);
-        };
+        const bytes: Uint8Array = await IOUtils.read(filePath, {
+          offset,
+          maxBytes: length,
+        });
+        const partEtag = await this.uploadPart(
+          key,
+          uploadId,
+          partNumber,
+          bytes,
+          (loaded) =>
+            options.onProgress?.(((uploadedBytes + loaded) / size) * 100),
+          options.signal,
+        );
+
+        this.transferState.recordPart(key, partNumber, partEtag);
+        uploadedBytes += length;
+        options.onProgress?.((uploadedBytes / size) * 100);
+      }
 
-        xhr.send();
-      });
+      const parts = this.transferState.getUpload(key)?.parts || [];
+      etag = await this.completeMultipartUpload(
+        key,
+        uploadId,
+        parts,
+        options.signal,
+      );
     } catch (error) {
-      return 0;
+      if (error instanceof S3NotFoundError) {
+        // Upload was aborted or expired server-side; next run starts fresh
+        this.transferState.removeUpload(key);
+      }
+      // Otherwise keep recorded parts so the next sync resumes from here
+      throw error;
     }
-  }
 
-  public async listFiles(prefix: string = ""): Promise<string[]> {
-    const files = await this.listFilesWithMetadata(prefix);
-    return files.map((f) => f.key);
+    this.transferState.removeUpload(key);
+    return etag;
   }
 
-  public async listFilesWithMetadata(
-    prefix: string = "",
-    fetchMetadata: boolean = false,
-  ): Promise<S3FileMetadata[]> {
-    if (!this.isConfigured()) {
-      return [];
+  /**
+   * Start a multipart upload and return its upload ID
+   */
+  private async createMultipartUpload(
+    key: string,
+    options: S3UploadOptions,
+  ): Promise<string> {
+    const url = `${this.getUrl(key)}?uploads`;
+    const response = await this.sendRequest("POST", url, {
+      key,
+      headers: this.getUploadHeaders(options),
+      encryption: "write",
+      signal: options.signal,
+    });
+
+    const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+    const uploadId = xmlDoc.getElementsByTagName("UploadId")[0]?.textContent;
+    if (!uploadId) {
+      throw new S3Error("Response is missing the UploadId", {
+        code: "InvalidResponse",
+        status: response.status,
+        key,
+      });
     }
 
-    try {
-      const endpoint = this.endpoint.replace(/\/$/, "");
-      const files: S3FileMetadata[] = [];
-      let continuationToken: string | null = null;
-      let page = 1;
+    ztoolkit.log(`Created multipart upload for ${key}: ${uploadId}`);
+    return uploadId;
+  }
 
-      while (true) {
-        const params = new URLSearchParams();
-        params.set("list-type", "2");
-        params.set("prefix", prefix);
-        if (continuationToken) {
-          params.set("continuation-token", continuationToken);
-        }
+  /**
+   * Upload one part and return its ETag
+   */
+  private async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    bytes: Uint8Array,
+    onProgress?: (loaded: number) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const params = new URLSearchParams();
+    params.set("partNumber", String(partNumber));
+    params.set("uploadId", uploadId);
+
+    const response = await this.sendRequest(
+      "PUT",
+      `${this.getUrl(key)}?${params.toString()}`,
+      {
+        key,
+        body: bytes,
+        encryption: "part",
+        payloadSigning: this.getPayloadSigning(),
+        signal,
+        onUploadProgress: onProgress,
+      },
+    );
 
-        const url = `${endpoint}/${this.bucketName}?${params.toString()}`;
-        const headers: Record<string, string> = {};
-        const signedHeaders = await this.signRequest("GET", url, headers);
-
-        // eslint-disable-next-line no-await-in-loop
-        const pageData = await new Promise<{
-          items: S3FileMetadata[];
-          nextToken: string | null;
-          isTruncated: boolean;
-        }>((resolve) => {
-          const xhr = new XMLHttpRequest();
-          xhr.open("GET", url, true);
-
-          Object.keys(signedHeaders).forEach((key) => {
-            xhr.setRequestHeader(key, signedHeaders[key]);
-          });
+    const etag = response.getHeader("ETag");
+    if (!etag) {
+      throw new S3Error(`Part ${partNumber} response is missing the ETag`, {
+        code: "InvalidResponse",
+        status: response.status,
+        key,
+      });
+    }
+    return etag;
+  }
 
-          xhr.onload = () => {
-            ztoolkit.log(
-              `S3 listFiles page ${page} response: status=${xhr.status}, length=${xhr.responseText?.length || 0}`,
-            );
+  /**
+   * Complete a multipart upload and return the ETag of the new object
+   */
+  private async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[],
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const partsXml = [...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(
+        (p) =>
+          `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`,
+      )
+      .join("");
+    const body = new TextEncoder().encode(
+      `<CompleteMultipartUpload>${partsXml}</CompleteMultipartUpload>`,
+    );
 
-            if (xhr.status >= 200 && xhr.status < 300) {
-              const parser = new DOMParser();
-              const xmlDoc = parser.parseFromString(
-                xhr.responseText || "",
-                "text/xml",
-              );
-              const contents = xmlDoc.getElementsByTagName("Contents");
-              const result: S3FileMetadata[] = [];
-
-              // Log first 500 chars to help diagnose XML issues without flooding logs
-              if (xhr.responseText && xhr.responseText.length > 0) {
-                ztoolkit.log(
-                  `XML snippet: ${xhr.responseText.substring(0, 500)}`,
-                );
-              }
-
-              for (let i = 0; i < contents.length; i++) {
-                const content = contents[i];
-                const key =
-                  content.getElementsByTagName("Key")[0]?.textContent || "";
-                const lastModified =
-                  content.getElementsByTagName("LastModified")[0]
-                    ?.textContent || "";
-                const size =
-                  content.getElementsByTagName("Size")[0]?.textContent || "0";
-                const etag =
-                  content.getElementsByTagName("ETag")[0]?.textContent || "";
-
-                result.push({
-                  key,
-                  lastModified: lastModified
-                    ? new Date(lastModified).getTime()
-                    : 0,
-                  size: parseInt(size, 10),
-                  etag: etag.replace(/"/g, ""), // Remove quotes from ETag
-                });
-              }
-
-              const nextToken =
-                xmlDoc.getElementsByTagName("NextContinuationToken")[0]
-                  ?.textContent || null;
-              const isTruncated =
-                xmlDoc.getElementsByTagName("IsTruncated")[0]?.textContent ===
-                "true";
-
-              resolve({
-                items: result,
-                nextToken,
-                isTruncated,
-              });
-            } else {
-              ztoolkit.log(
-                `S3 listFiles failed: ${xhr.status} ${xhr.statusText}`,
-              );
-              ztoolkit.log(`Response body: ${xhr.responseText}`);
-              resolve({
-                items: [],
-                nextToken: null,
-                isTruncated: false,
-              });
-            }
-          };
-
-          xhr.onerror = () => {
-            ztoolkit.log("S3 listFiles network error");
-            resolve({
-              items: [],
-              nextToken: null,
-              isTruncated: false,
-            });
-          };
-
-          xhr.send();
-        });
+    const params = new URLSearchParams();
+    params.set("uploadId", uploadId);
+    const response = await this.sendRequest(
+      "POST",
+      `${this.getUrl(key)}?${params.toString()}`,
+      { key, headers: { "Content-Type": "application/xml" }, body, signal },
+    );
+
+    // CompleteMultipartUpload can report errors inside a 200 response;
+    // S3 documents these as server-side failures
+    if (response.text.includes("<Error>")) {
+      throw createS3Error(500, response.text, key);
+    }
 
-        files.push(...pageData.items);
+    ztoolkit.log(`File uploaded successfully (multipart): ${key}`);
+    const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+    return xmlDoc.getElementsByTagName("ETag")[0]?.textContent || "";
+  }
+
+  /**
+   * Abort a multipart upload so the server can discard its parts
+   */
+  private async abortMultipartUpload(
+    key: string,
+    uploadId: string,
+  ): Promise<void> {
+    const params = new URLSearchParams();
+    params.set("uploadId", uploadId);
+    await this.sendRequest(
+      "DELETE",
+      `${this.getUrl(key)}?${params.toString()}`,
+      { key },
+    );
+  }
+
+  public async downloadFile(key: string, signal?: AbortSignal): Promise<Blob> {
+    return (await this.downloadFileWithETag(key, signal)).blob;
+  }
+
+  /**
+   * Download an object into memory together with its ETag, which callers
+   * can pass back as ifMatch to update it with a compare-and-swap
+   */
+  public async downloadFileWithETag(
+    key: string,
+    signal?: AbortSignal,
+  ): Promise<{ blob: Blob; etag: string }> {
+    await this.ensureConfigured();
+
+    const response = await this.sendRequest("GET", this.getUrl(key), {
+      key,
+      responseType: "arraybuffer",
+      encryption: "read",
+      signal,
+    });
+    ztoolkit.log(`File downloaded successfully: ${key}`);
+
+    const compression = parseCompressionFormat(
+      response.getHeader(`x-amz-meta-${COMPRESSION_METADATA_KEY}`),
+    );
+    const etag = response.getHeader("ETag") || "";
+    if (compression) {
+      const bytes = new Uint8Array(response.body as ArrayBuffer);
+      return {
+        blob: new Blob([await decompressBytes(bytes, compression)]),
+        etag,
+      };
+    }
+    return { blob: new Blob([response.body as ArrayBuffer]), etag };
+  }
 
-        continuationToken = pageData.nextToken;
-        if (!pageData.isTruncated || !continuationToken) {
-          break;
+  /**
+   * Download an object straight to disk in Range-GET chunks.
+   * Chunks are appended to a partial file next to the target, so a download
+   * interrupted by a network drop resumes from the last written byte.
+   * The stored bytes are written as-is; the returned metadata tells the
+   * caller whether they still need decompressing.
+   */
+  public async downloadFileToPath(
+    key: string,
+    filePath: string,
+    options: S3DownloadOptions = {},
+  ): Promise<S3FileMetadata> {
+    await this.ensureConfigured();
+
+    const versionId = options.versionId;
+    const meta = await this.getObjectMetadata(key, versionId, options.signal);
+    const tempPath = `${filePath}.s3sync-part`;
+    // Earlier versions are tracked separately from the current object
+    const stateKey = versionId ? `${key}?versionId=${versionId}` : key;
+    const offset = await this.getResumeOffset(stateKey, meta, tempPath);
+    const chunkSize = this.bandwidth.getChunkSize(
+      "download",
+      Math.max((getPref("s3.downloadChunkSize") as number) || 8, 1) *
+        S3Manager.MB,
+    );
+    const url = this.getUrl(key, versionId);
+    let written = offset;
+
+    while (written < meta.size) {
+      const end = Math.min(written + chunkSize, meta.size) - 1;
+      let response: S3Response;
+      try {
+        response = await this.sendRequest("GET", url, {
+          key,
+          headers: {
+            Range: `bytes=${written}-${end}`,
+            "If-Match": `"${meta.etag}"`,
+          },
+          responseType: "arraybuffer",
+          encryption: "read",
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (error instanceof S3PreconditionFailedError) {
+          // Object was replaced mid-download; the partial file is useless
+          ztoolkit.log(`Object ${key} changed during download, restarting`);
+          await IOUtils.remove(tempPath, { ignoreAbsent: true });
+          this.transferState.removeDownload(stateKey);
         }
-        page += 1;
+        // Otherwise keep the partial file so the next sync resumes from here
+        throw error;
+      }
+
+      const chunk = new Uint8Array(response.body as ArrayBuffer);
+      if (response.status === 200) {
+        // Server ignored the Range header and sent the whole object
+        await IOUtils.write(tempPath, chunk);
+        written = chunk.length;
+        break;
+      }
+
+      await IOUtils.write(tempPath, chunk, { mode: "appendOrCreate" });
+      written += chunk.length;
+      options.onProgress?.((written / meta.size) * 100);
+    }
+
+    if (meta.size === 0) {
+      await IOUtils.write(tempPath, new Uint8Array(0));
+    }
+
+    await IOUtils.move(tempPath, filePath);
+    this.transferState.removeDownload(stateKey);
+    ztoolkit.log(`File downloaded successfully: ${key}`);
+    return meta;
+  }
+
+  /**
+   * Work out where a ranged download should continue from, discarding a
+   * partial file that belongs to a different version of the object
+   */
+  private async getResumeOffset(
+    key: string,
+    meta: S3FileMetadata,
+    tempPath: string,
+  ): Promise<number> {
+    const record = this.transferState.getDownload(key);
+
+    if (
+      record &&
+      record.etag === meta.etag &&
+      record.size === meta.size &&
+      record.tempPath === tempPath &&
+      (await IOUtils.exists(tempPath))
+    ) {
+      const info = await IOUtils.stat(tempPath);
+      const partialSize = info.size ?? 0;
+      if (partialSize <= meta.size) {
+        ztoolkit.log(`Resuming download of ${key} at byte ${partialSize}`);
+        return partialSize;
+      }
+    }
+
+    await IOUtils.remove(tempPath, { ignoreAbsent: true });
+    this.transferState.startDownload(key, meta.etag, meta.size, tempPath);
+    return 0;
+  }
+
+  public async fileExists(key: string, signal?: AbortSignal): Promise<boolean> {
+    try {
+      await this.getObjectMetadata(key, undefined, signal);
+      return true;
+    } catch (error) {
+      if (error instanceof S3NotFoundError) {
+        return false;
       }
+      throw error;
+    }
+  }
 
-      if (fetchMetadata && files.length > 0) {
-        // Fetch object metadata (x-amz-meta-md5) for better checksum comparison
-        for (const fileMeta of files) {
-          // eslint-disable-next-line no-await-in-loop
-          const meta = await this.getObjectMetadata(fileMeta.key);
-          if (meta?.metaMd5) {
+  public async getFileModTime(
+    key: string,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const meta = await this.getObjectMetadata(key, undefined, signal);
+    return meta.lastModified;
+  }
+
+  public async listFiles(
+    prefix: string = "",
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const files = await this.listFilesWithMetadata(prefix, false, signal);
+    return files.map((f) => f.key);
+  }
+
+  public async listFilesWithMetadata(
+    prefix: string = "",
+    fetchMetadata: boolean = false,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata[]> {
+    await this.ensureConfigured();
+
+    const files = await this.listAllObjects(prefix, signal);
+
+    if (fetchMetadata && files.length > 0) {
+      // Fetch object metadata (x-amz-meta-md5) for better checksum comparison
+      for (const fileMeta of files) {
+        try {
+          const meta = await this.getObjectMetadata(
+            fileMeta.key,
+            undefined,
+            signal,
+          );
+          if (meta.metaMd5) {
             fileMeta.metaMd5 = meta.metaMd5;
           }
+        } catch (error) {
+          // Deleted between listing and HEAD; keep the listing entry
+          if (!(error instanceof S3NotFoundError)) {
+            throw error;
+          }
         }
       }
+    }
 
-      return files;
-    } catch (error) {
-      ztoolkit.log("Failed to list files:", error);
-      return [];
+    return files;
+  }
+
+  /**
+   * List every object under a prefix, with ListObjectsV2 unless the provider
+   * is known not to support it. A V2 listing that is truncated without a
+   * usable continuation token (gateways that ignore list-type=2, or return
+   * the same token again) is redone with ListObjects (v1) marker paging and
+   * the provider remembered as V1-only.
+   */
+  private async listAllObjects(
+    prefix: string,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata[]> {
+    if (this.getCapabilities()?.listObjectsV2 !== false) {
+      const files = await this.listObjectPages(prefix, 2, signal);
+      if (files) {
+        return files;
+      }
+      ztoolkit.log(
+        "ListObjectsV2 paging does not work on this endpoint, falling back to ListObjects (v1)",
+      );
+      this.updateCapabilities({ listObjectsV2: false });
+    }
+    return (await this.listObjectPages(prefix, 1, signal))!;
+  }
+
+  /**
+   * Page through a listing with continuation tokens (v2) or markers (v1).
+   * Resolves null when a v2 page is truncated without a new token.
+   */
+  private async listObjectPages(
+    prefix: string,
+    version: 1 | 2,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata[] | null> {
+    const files: S3FileMetadata[] = [];
+    let token: string | null = null;
+    let page = 1;
+
+    while (true) {
+      const params = new URLSearchParams();
+      if (version === 2) {
+        params.set("list-type", "2");
+      }
+      params.set("prefix", prefix);
+      if (token) {
+        params.set(version === 2 ? "continuation-token" : "marker", token);
+      }
+
+      const url = `${this.getBucketUrl()}?${params.toString()}`;
+      const response = await this.sendRequest("GET", url, {
+        key: this.bucketName,
+        signal,
+      });
+
+      ztoolkit.log(
+        `S3 listFiles (v${version}) page ${page} response: status=${response.status}, length=${response.text.length}`,
+      );
+
+      // Log first 500 chars to help diagnose XML issues without flooding logs
+      if (response.text.length > 0) {
+        ztoolkit.log(`XML snippet: ${response.text.substring(0, 500)}`);
+      }
+
+      const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+      const contents = xmlDoc.getElementsByTagName("Contents");
+
+      for (let i = 0; i < contents.length; i++) {
+        const content = contents[i];
+        const key = content.getElementsByTagName("Key")[0]?.textContent || "";
+        const lastModified =
+          content.getElementsByTagName("LastModified")[0]?.textContent || "";
+        const size =
+          content.getElementsByTagName("Size")[0]?.textContent || "0";
+        const etag = content.getElementsByTagName("ETag")[0]?.textContent || "";
+        const storageClass =
+          content.getElementsByTagName("StorageClass")[0]?.textContent ||
+          undefined;
+
+        files.push({
+          key,
+          lastModified: lastModified ? new Date(lastModified).getTime() : 0,
+          size: parseInt(size, 10),
+          etag: etag.replace(/"/g, ""), // Remove quotes from ETag
+          storageClass,
+        });
+      }
+
+      const isTruncated =
+        xmlDoc.getElementsByTagName("IsTruncated")[0]?.textContent === "true";
+      if (!isTruncated) {
+        break;
+      }
+
+      // V1 only returns NextMarker with a delimiter; the last key works too
+      const nextToken =
+        version === 2
+          ? xmlDoc.getElementsByTagName("NextContinuationToken")[0]
+              ?.textContent || null
+          : xmlDoc.getElementsByTagName("NextMarker")[0]?.textContent ||
+            files[files.length - 1]?.key ||
+            null;
+      if (!nextToken || nextToken === token) {
+        if (version === 2) {
+          return null;
+        }
+        // A missed page would look like remote deletions, so never stop early
+        throw new S3Error("The listing is truncated but cannot be continued", {
+          code: "InvalidResponse",
+          status: response.status,
+          key: this.bucketName,
+        });
+      }
+      token = nextToken;
+      page += 1;
+    }
+
+    return files;
+  }
+
+  /**
+   * List every version and delete marker of a single key, newest first.
+   * Unversioned buckets return just the current object.
+   */
+  public async listObjectVersions(
+    key: string,
+    signal?: AbortSignal,
+  ): Promise<S3ObjectVersion[]> {
+    await this.ensureConfigured();
+
+    const versions: S3ObjectVersion[] = [];
+    let keyMarker: string | null = null;
+    let versionIdMarker: string | null = null;
+
+    while (true) {
+      const params = new URLSearchParams();
+      params.set("versions", "");
+      params.set("prefix", key);
+      if (keyMarker) {
+        params.set("key-marker", keyMarker);
+      }
+      if (versionIdMarker) {
+        params.set("version-id-marker", versionIdMarker);
+      }
+
+      const response = await this.sendRequest(
+        "GET",
+        `${this.getBucketUrl()}?${params.toString()}`,
+        { key, signal },
+      );
+      const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+      const field = (element: Element, name: string) =>
+        element.getElementsByTagName(name)[0]?.textContent || "";
+
+      for (const tag of ["Version", "DeleteMarker"]) {
+        const entries = xmlDoc.getElementsByTagName(tag);
+        for (let i = 0; i < entries.length; i++) {
+          const entry = entries[i];
+          // The prefix also matches longer keys
+          if (field(entry, "Key") !== key) {
+            continue;
+          }
+          const lastModified = field(entry, "LastModified");
+          versions.push({
+            key,
+            versionId: field(entry, "VersionId") || "null",
+            lastModified: lastModified ? new Date(lastModified).getTime() : 0,
+            size: parseInt(field(entry, "Size") || "0", 10),
+            etag: field(entry, "ETag").replace(/"/g, ""),
+            isLatest: field(entry, "IsLatest") === "true",
+            isDeleteMarker: tag === "DeleteMarker",
+          });
+        }
+      }
+
+      const isTruncated =
+        xmlDoc.getElementsByTagName("IsTruncated")[0]?.textContent === "true";
+      keyMarker =
+        xmlDoc.getElementsByTagName("NextKeyMarker")[0]?.textContent || null;
+      versionIdMarker =
+        xmlDoc.getElementsByTagName("NextVersionIdMarker")[0]?.textContent ||
+        null;
+      if (!isTruncated || !keyMarker) {
+        break;
+      }
     }
+
+    return versions.sort((a, b) => b.lastModified - a.lastModified);
   }
 
   /**
@@ -538,166 +1524,673 @@ export class S3Manager {
    */
   public async getObjectMetadata(
     key: string,
-  ): Promise<S3FileMetadata | null> {
-    if (!this.isConfigured()) {
-      return null;
-    }
+    versionId?: string,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata> {
+    await this.ensureConfigured();
+
+    const response = await this.sendRequest(
+      "HEAD",
+      this.getUrl(key, versionId),
+      {
+        key,
+        encryption: "read",
+        signal,
+      },
+    );
+    const lastModified = response.getHeader("Last-Modified");
+    const sizeHeader = response.getHeader("Content-Length");
+    const etagHeader = response.getHeader("ETag");
+    const metaMd5 = response.getHeader("x-amz-meta-md5") || undefined;
+    const restoreHeader = response.getHeader("x-amz-restore");
+
+    return {
+      key,
+      lastModified: lastModified ? new Date(lastModified).getTime() : 0,
+      size: sizeHeader ? parseInt(sizeHeader, 10) : 0,
+      etag: etagHeader ? etagHeader.replace(/"/g, "") : "",
+      metaMd5,
+      compression: parseCompressionFormat(
+        response.getHeader(`x-amz-meta-${COMPRESSION_METADATA_KEY}`),
+      ),
+      storageClass: response.getHeader("x-amz-storage-class") || undefined,
+      restore: restoreHeader
+        ? /ongoing-request="true"/.test(restoreHeader)
+          ? "ongoing"
+          : "restored"
+        : undefined,
+    };
+  }
+
+  /**
+   * Ask S3 to restore an archived object (GLACIER, DEEP_ARCHIVE or an
+   * Intelligent-Tiering archive tier) and remember the pending restore so
+   * later syncs only check on it.
+   * Resolves "restored" if a restored copy is already available.
+   */
+  public async restoreObject(
+    key: string,
+    signal?: AbortSignal,
+  ): Promise<"requested" | "restored"> {
+    await this.ensureConfigured();
+
+    const days = Math.max((getPref("s3.restoreDays") as number) || 7, 1);
+    const tier = (getPref("s3.restoreTier") as string) || "Standard";
+    // Intelligent-Tiering archives reject <Days>; they stay restored for
+    // a fixed period instead
+    const meta = await this.getObjectMetadata(key, undefined, signal);
+    const daysXml =
+      meta.storageClass === "INTELLIGENT_TIERING" ? "" : `<Days>${days}</Days>`;
+    const body = new TextEncoder().encode(
+      `<RestoreRequest>${daysXml}<GlacierJobParameters><Tier>${tier}</Tier></GlacierJobParameters></RestoreRequest>`,
+    );
 
+    let response: S3Response;
     try {
-      const url = this.getUrl(key);
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("HEAD", url, headers);
+      response = await this.sendRequest(
+        "POST",
+        `${this.getUrl(key)}?restore=`,
+        {
+          key,
+          headers: {
+            "Content-Type": "application/xml",
+            "Content-MD5": md5Base64(body),
+          },
+          body,
+          signal,
+        },
+      );
+    } catch (error) {
+      if (
+        !(error instanceof S3Error && error.code === "RestoreAlreadyInProgress")
+      ) {
+        throw error;
+      }
+      ztoolkit.log(`Restore already in progress: ${key}`);
+      this.transferState.startRestore(key, days);
+      return "requested";
+    }
 
-      const xhr = new XMLHttpRequest();
-      xhr.open("HEAD", url, true);
+    // 200 means an earlier restore is still available; 202 starts a new one
+    if (response.status === 200) {
+      return "restored";
+    }
+    ztoolkit.log(`Restore requested (${tier}, ${days} days): ${key}`);
+    this.transferState.startRestore(key, days);
+    return "requested";
+  }
 
-      Object.keys(signedHeaders).forEach((k) => {
-        xhr.setRequestHeader(k, signedHeaders[k]);
-      });
+  /**
+   * Replace the tag set of an object (PutObjectTagging)
+   */
+  public async putObjectTags(
+    key: string,
+    tags: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.ensureConfigured();
+
+    const tagsXml = Object.entries(tags)
+      .map(
+        ([name, value]) =>
+          `<Tag><Key>${this.escapeXml(name)}</Key><Value>${this.escapeXml(value)}</Value></Tag>`,
+      )
+      .join("");
+    const body = new TextEncoder().encode(
+      `<Tagging><TagSet>${tagsXml}</TagSet></Tagging>`,
+    );
 
-      return await new Promise<S3FileMetadata | null>((resolve) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            const lastModified = xhr.getResponseHeader("Last-Modified");
-            const sizeHeader = xhr.getResponseHeader("Content-Length");
-            const etagHeader = xhr.getResponseHeader("ETag");
-            const metaMd5 = xhr.getResponseHeader("x-amz-meta-md5") || undefined;
-
-            resolve({
-              key,
-              lastModified: lastModified
-                ? new Date(lastModified).getTime()
-                : 0,
-              size: sizeHeader ? parseInt(sizeHeader, 10) : 0,
-              etag: etagHeader ? etagHeader.replace(/"/g, "") : "",
-              metaMd5,
-            });
-          } else {
-            resolve(null);
-          }
-        };
+    await this.sendRequest("PUT", `${this.getUrl(key)}?tagging=`, {
+      key,
+      headers: {
+        "Content-Type": "application/xml",
+        "Content-MD5": md5Base64(body),
+      },
+      body,
+      signal,
+    });
+    ztoolkit.log(`Object tags updated: ${key}`);
+  }
 
-        xhr.onerror = () => resolve(null);
-        xhr.send();
-      });
-    } catch (error) {
-      return null;
+  /**
+   * Whether a restore requested by an earlier sync is still being tracked
+   */
+  public hasPendingRestore(key: string): boolean {
+    return !!this.transferState.getRestore(key);
+  }
+
+  /**
+   * Stop tracking a restore once the object has been downloaded
+   */
+  public clearPendingRestore(key: string): void {
+    this.transferState.removeRestore(key);
+  }
+
+  /**
+   * Build a presigned GET URL with SigV4 query-string signing, so the object
+   * can be downloaded without credentials until the link expires.
+   * Links made from temporary credentials stop working when those expire.
+   */
+  public async getPresignedUrl(
+    key: string,
+    options: S3PresignOptions = {},
+  ): Promise<string> {
+    await this.ensureConfigured();
+
+    // A browser cannot send the SSE-C key headers
+    if (this.encryption.mode === "SSE-C") {
+      throw new S3EncryptionError(
+        "Objects encrypted with SSE-C cannot be shared with a link",
+        { code: "PresignUnsupported", status: 0, key },
+      );
+    }
+
+    const expiresIn = Math.min(
+      Math.max(Math.round(options.expiresIn ?? 3600), 1),
+      S3Manager.MAX_PRESIGN_EXPIRY,
+    );
+    const dateTime = this.getAmzDateTime();
+    const date = dateTime.substr(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const credentials = await this.credentialProvider.getCredentials();
+
+    const url = new URL(this.getUrl(key));
+    const params = url.searchParams;
+    params.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+    params.set("X-Amz-Credential", `${credentials.accessKeyId}/${scope}`);
+    params.set("X-Amz-Date", dateTime);
+    params.set("X-Amz-Expires", String(expiresIn));
+    params.set("X-Amz-SignedHeaders", "host");
+    if (credentials.sessionToken) {
+      params.set("X-Amz-Security-Token", credentials.sessionToken);
+    }
+    if (options.filename) {
+      params.set(
+        "response-content-disposition",
+        this.getContentDisposition(options.filename),
+      );
+    }
+    if (options.contentType) {
+      params.set("response-content-type", options.contentType);
+    }
+    if (options.contentEncoding) {
+      params.set("response-content-encoding", options.contentEncoding);
     }
+
+    // The query is sent exactly as it was signed
+    const queryString = this.canonicalQueryString(url.search);
+    const canonicalRequest = `GET\n${url.pathname}\n${queryString}\nhost:${url.host}\n\nhost\nUNSIGNED-PAYLOAD`;
+    const stringToSign = `AWS4-HMAC-SHA256\n${dateTime}\n${scope}\n${await this.sha256Hex(canonicalRequest)}`;
+    const signature = await this.calculateSignature(
+      credentials,
+      date,
+      stringToSign,
+    );
+
+    ztoolkit.log(`Presigned URL created for ${key}, expires in ${expiresIn}s`);
+    return `${url.origin}${url.pathname}?${queryString}&X-Amz-Signature=${signature}`;
   }
 
-  public async testConnection(): Promise<boolean> {
-    if (!this.isConfigured()) {
-      ztoolkit.log("S3 not configured");
-      return false;
+  /**
+   * Content-Disposition with an ASCII fallback and the UTF-8 filename
+   * (RFC 6266), so non-Latin titles survive the download
+   */
+  private getContentDisposition(filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${this.uriEncode(filename)}`;
+  }
+
+  /**
+   * Check that the bucket can be listed with the current settings.
+   * Resolves on success and rejects with the typed S3 error otherwise.
+   */
+  public async testConnection(
+    prefix: string = "",
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.ensureConfigured();
+
+    ztoolkit.log("Testing S3 connection...");
+    const params = new URLSearchParams();
+    params.set("max-keys", "1");
+    if (prefix) {
+      params.set("prefix", prefix);
     }
+    const url = `${this.getBucketUrl()}?${params.toString()}`;
+    ztoolkit.log(
+      `Testing connection to: ${url} (${this.addressingStyle}-style addressing)`,
+    );
 
-    try {
-      ztoolkit.log("Testing S3 connection...");
+    await this.sendRequest("GET", url, {
+      key: this.bucketName,
+      timeout: 10000, // 10 second timeout
+      signal,
+    });
+    ztoolkit.log("S3 connection test successful");
+  }
 
-      // Force path-style URL for all S3 services
-      const endpoint = this.endpoint.replace(/\/$/, "");
-      const url = `${endpoint}/${this.bucketName}?max-keys=1`;
+  /**
+   * Region the bucket was created in (GetBucketLocation). S3 answers an
+   * empty LocationConstraint for us-east-1 and "EU" for old eu-west-1
+   * buckets.
+   */
+  public async getBucketLocation(signal?: AbortSignal): Promise<string> {
+    await this.ensureConfigured();
 
-      ztoolkit.log(`Testing connection to: ${url}`);
+    const response = await this.sendRequest(
+      "GET",
+      `${this.getBucketUrl()}?location`,
+      { key: this.bucketName, signal },
+    );
+    const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+    const location =
+      xmlDoc
+        .getElementsByTagName("LocationConstraint")[0]
+        ?.textContent?.trim() || "";
+    if (!location) {
+      return "us-east-1";
+    }
+    return location === "EU" ? "eu-west-1" : location;
+  }
 
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("GET", url, headers);
+  /**
+   * Create the configured bucket in the configured region
+   */
+  public async createBucket(signal?: AbortSignal): Promise<void> {
+    await this.ensureConfigured();
+
+    // us-east-1 rejects an explicit location constraint
+    const body =
+      this.region === "us-east-1"
+        ? undefined
+        : new TextEncoder().encode(
+            `<?xml version="1.0" encoding="UTF-8"?><CreateBucketConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><LocationConstraint>${this.escapeXml(this.region)}</LocationConstraint></CreateBucketConfiguration>`,
+          );
+    await this.sendRequest("PUT", this.getBucketUrl(), {
+      key: this.bucketName,
+      headers: body ? { "Content-Type": "application/xml" } : {},
+      body,
+      signal,
+    });
+    ztoolkit.log(`Bucket created: ${this.bucketName} (${this.region})`);
+  }
+
+  /**
+   * The settings a request goes to, for reports; never includes secrets
+   */
+  public getConnectionInfo(): {
+    endpoint: string;
+    bucket: string;
+    region: string;
+    addressingStyle: S3AddressingStyle;
+  } {
+    return {
+      endpoint: this.endpoint,
+      bucket: this.bucketName,
+      region: this.region,
+      addressingStyle: this.addressingStyle,
+    };
+  }
 
-      ztoolkit.log(`Request headers:`, signedHeaders);
+  /**
+   * Capabilities of the configured endpoint and bucket, or null until probed
+   */
+  public getCapabilities(): ProviderCapabilities | null {
+    return this.capabilityCache.get(this.getProviderId());
+  }
 
-      return new Promise<boolean>((resolve) => {
-        const xhr = new XMLHttpRequest();
-        xhr.open("GET", url, true);
-        xhr.timeout = 10000; // 10 second timeout
+  /**
+   * Record a capability that a request showed to be missing
+   */
+  public updateCapabilities(
+    changes: Partial<Omit<ProviderCapabilities, "probedAt">>,
+  ): void {
+    this.capabilityCache.update(this.getProviderId(), changes);
+  }
 
-        Object.keys(signedHeaders).forEach((key) => {
-          xhr.setRequestHeader(key, signedHeaders[key]);
-        });
+  /**
+   * Cached capabilities, probing the provider first if there are none
+   */
+  public async ensureCapabilities(
+    prefix: string,
+    signal?: AbortSignal,
+  ): Promise<ProviderCapabilities> {
+    return (
+      this.getCapabilities() ?? (await this.probeCapabilities(prefix, signal))
+    );
+  }
 
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            ztoolkit.log("S3 connection test successful");
-            resolve(true);
-          } else {
-            ztoolkit.log(
-              `S3 connection test failed with status ${xhr.status}: ${xhr.statusText}`,
-            );
-            ztoolkit.log(`Response body: ${xhr.responseText}`);
-            ztoolkit.log(`Request URL: ${url}`);
-            resolve(false);
-          }
-        };
-
-        xhr.onerror = (e) => {
-          ztoolkit.log("S3 connection test failed: network error");
-          ztoolkit.log(`Error details:`, e);
-          ztoolkit.log(`Request URL: ${url}`);
-          resolve(false);
-        };
-
-        xhr.ontimeout = () => {
-          ztoolkit.log("S3 connection test failed: timeout");
-          ztoolkit.log(`Request URL: ${url}`);
-          resolve(false);
-        };
-
-        xhr.send();
-      });
-    } catch (error) {
-      ztoolkit.log("S3 connection test failed with exception");
-      ztoolkit.log(
-        "Error message:",
-        error instanceof Error ? error.message : String(error),
+  /**
+   * Find out which listing API, conditional writes, multipart upload and
+   * versioning the provider supports, using a small probe object under the
+   * prefix. Checks that cannot run (e.g. without write permission) keep
+   * their defaults; only listing failures reject. With probeWritten the
+   * caller has already written PROBE_OBJECT and removes it itself, so the
+   * probe reuses it instead of writing and deleting its own.
+   */
+  public async probeCapabilities(
+    prefix: string,
+    signal?: AbortSignal,
+    options: { probeWritten?: boolean } = {},
+  ): Promise<ProviderCapabilities> {
+    await this.ensureConfigured();
+    ztoolkit.log(`Probing capabilities of ${this.getProviderId()}`);
+
+    const probeKey = prefix
+      ? `${prefix}/${S3Manager.PROBE_OBJECT}`
+      : S3Manager.PROBE_OBJECT;
+    const capabilities: ProviderCapabilities = {
+      ...DEFAULT_CAPABILITIES,
+      listObjectsV2: await this.probeListObjectsV2(prefix, signal),
+      versioning: await this.probeVersioning(signal),
+      ...(await this.probeWrites(probeKey, !!options.probeWritten, signal)),
+      probedAt: Date.now(),
+    };
+
+    this.capabilityCache.set(this.getProviderId(), capabilities);
+    ztoolkit.log(`Provider capabilities: ${JSON.stringify(capabilities)}`);
+    return capabilities;
+  }
+
+  /**
+   * V1-only gateways ignore list-type=2 and answer with a Marker element
+   * and no continuation token
+   */
+  private async probeListObjectsV2(
+    prefix: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    const params = new URLSearchParams();
+    params.set("list-type", "2");
+    params.set("max-keys", "1");
+    params.set("prefix", prefix);
+    const response = await this.sendRequest(
+      "GET",
+      `${this.getBucketUrl()}?${params.toString()}`,
+      { key: this.bucketName, signal },
+    );
+
+    const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+    const has = (tag: string) => xmlDoc.getElementsByTagName(tag).length > 0;
+    if (xmlDoc.getElementsByTagName("IsTruncated")[0]?.textContent === "true") {
+      return has("NextContinuationToken");
+    }
+    return has("KeyCount") || !has("Marker");
+  }
+
+  private async probeVersioning(signal?: AbortSignal): Promise<boolean> {
+    try {
+      const response = await this.sendRequest(
+        "GET",
+        `${this.getBucketUrl()}?versioning`,
+        { key: this.bucketName, signal },
       );
-      ztoolkit.log(
-        "Error stack:",
-        error instanceof Error ? error.stack : "N/A",
+      const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+      return (
+        xmlDoc.getElementsByTagName("Status")[0]?.textContent === "Enabled"
       );
-      ztoolkit.log("Error object:", error);
+    } catch (error) {
+      if (error instanceof S3AbortError) {
+        throw error;
+      }
+      ztoolkit.log(`Versioning probe failed: ${describeError(error)}`);
       return false;
     }
   }
 
-  public async deleteFile(key: string): Promise<boolean> {
-    if (!this.isConfigured()) {
-      ztoolkit.log("S3 client not configured");
-      return false;
+  /**
+   * Write the probe object unless it exists already, then try to create it
+   * again with If-None-Match: * (which must fail with 412), start and abort
+   * a multipart upload on it and overwrite it with each payload signing
+   * mode. A probe object written here is removed afterwards.
+   */
+  private async probeWrites(
+    key: string,
+    written: boolean,
+    signal?: AbortSignal,
+  ): Promise<
+    Pick<
+      ProviderCapabilities,
+      | "conditionalWrites"
+      | "multipartUpload"
+      | "unsignedPayload"
+      | "streamingPayload"
+    >
+  > {
+    const result = {
+      conditionalWrites: DEFAULT_CAPABILITIES.conditionalWrites,
+      multipartUpload: DEFAULT_CAPABILITIES.multipartUpload,
+      unsignedPayload: DEFAULT_CAPABILITIES.unsignedPayload,
+      streamingPayload: DEFAULT_CAPABILITIES.streamingPayload,
+    };
+
+    if (!written) {
+      try {
+        await this.putProbeObject(key, "signed", {}, signal);
+      } catch (error) {
+        if (error instanceof S3AbortError) {
+          throw error;
+        }
+        ztoolkit.log(
+          `Cannot write the probe object, keeping default capabilities: ${describeError(error)}`,
+        );
+        return result;
+      }
     }
 
     try {
-      const url = this.getUrl(key);
-      const headers: Record<string, string> = {};
-      const signedHeaders = await this.signRequest("DELETE", url, headers);
-
-      const xhr = new XMLHttpRequest();
-      xhr.open("DELETE", url, true);
+      try {
+        await this.putProbeObject(
+          key,
+          "signed",
+          { "If-None-Match": "*" },
+          signal,
+        );
+        // The header was ignored and the object overwritten
+        result.conditionalWrites = false;
+      } catch (error) {
+        if (isNotImplemented(error)) {
+          result.conditionalWrites = false;
+        } else if (!(error instanceof S3PreconditionFailedError)) {
+          throw error;
+        }
+      }
 
-      Object.keys(signedHeaders).forEach((key) => {
-        xhr.setRequestHeader(key, signedHeaders[key]);
-      });
+      try {
+        const uploadId = await this.createMultipartUpload(key, { signal });
+        await this.abortMultipartUpload(key, uploadId);
+      } catch (error) {
+        if (isNotImplemented(error)) {
+          result.multipartUpload = false;
+        } else {
+          throw error;
+        }
+      }
 
-      return new Promise((resolve) => {
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            ztoolkit.log(`File deleted successfully: ${key}`);
-            resolve(true);
-          } else {
-            ztoolkit.log(`Failed to delete file ${key}: ${xhr.status}`);
-            resolve(false);
+      // Any error response means the provider does not accept the mode
+      const accepts = async (payloadSigning: S3PayloadSigning) => {
+        try {
+          await this.putProbeObject(key, payloadSigning, {}, signal);
+          return true;
+        } catch (error) {
+          if (error instanceof S3Error && error.status >= 400) {
+            ztoolkit.log(
+              `Provider rejects ${payloadSigning} payloads: ${describeError(error)}`,
+            );
+            return false;
           }
-        };
+          throw error;
+        }
+      };
+      if (this.endpoint.toLowerCase().startsWith("https:")) {
+        result.unsignedPayload = await accepts("unsigned");
+      }
+      result.streamingPayload = await accepts("streaming");
+    } catch (error) {
+      if (error instanceof S3AbortError) {
+        throw error;
+      }
+      ztoolkit.log(`Capability probe failed: ${describeError(error)}`);
+    } finally {
+      if (!written) {
+        await this.deleteFile(key).catch((error) =>
+          ztoolkit.log(
+            `Failed to remove the probe object: ${describeError(error)}`,
+          ),
+        );
+      }
+    }
+    return result;
+  }
 
-        xhr.onerror = () => {
-          ztoolkit.log(`Network error deleting file ${key}`);
-          resolve(false);
-        };
+  /**
+   * Write the probe object with an explicit payload signing mode, so the
+   * probe does not depend on the capabilities it is finding out
+   */
+  private async putProbeObject(
+    key: string,
+    payloadSigning: S3PayloadSigning,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    await this.sendRequest("PUT", this.getUrl(key), {
+      key,
+      headers: { "Content-Type": "text/plain", ...headers },
+      body: new TextEncoder().encode("s3sync capability probe"),
+      encryption: "write",
+      payloadSigning,
+      signal,
+    });
+  }
 
-        xhr.send();
-      });
-    } catch (error) {
-      ztoolkit.log(`Failed to delete file ${key}:`, error);
-      return false;
+  private getProviderId(): string {
+    return `${this.endpoint}/${this.bucketName}`;
+  }
+
+  public async deleteFile(key: string, signal?: AbortSignal): Promise<void> {
+    await this.ensureConfigured();
+
+    await this.sendRequest("DELETE", this.getUrl(key), { key, signal });
+    ztoolkit.log(`File deleted successfully: ${key}`);
+  }
+
+  /**
+   * Delete many objects with the multi-object DeleteObjects API, up to 1,000
+   * keys per request. Never rejects for a failed batch; every key is reported
+   * as either deleted or failed so callers only forget confirmed deletions.
+   * Rejects with S3AbortError when cancelled, without sending later batches.
+   */
+  public async deleteFiles(
+    keys: string[],
+    signal?: AbortSignal,
+  ): Promise<S3DeleteResult> {
+    await this.ensureConfigured();
+
+    const result: S3DeleteResult = { deleted: [], errors: new Map() };
+    for (let i = 0; i < keys.length; i += S3Manager.MAX_DELETE_KEYS) {
+      const batch = keys.slice(i, i + S3Manager.MAX_DELETE_KEYS);
+      try {
+        const batchResult = await this.deleteBatch(batch, signal);
+        result.deleted.push(...batchResult.deleted);
+        batchResult.errors.forEach((error, key) =>
+          result.errors.set(key, error),
+        );
+      } catch (error) {
+        if (error instanceof S3AbortError) {
+          throw error;
+        }
+        const s3Error =
+          error instanceof S3Error
+            ? error
+            : new S3Error(String(error), { code: "Unknown", status: 0 });
+        batch.forEach((key) => result.errors.set(key, s3Error));
+      }
+    }
+
+    ztoolkit.log(
+      `Deleted ${result.deleted.length}/${keys.length} objects, ${result.errors.size} failed`,
+    );
+    return result;
+  }
+
+  private async deleteBatch(
+    keys: string[],
+    signal?: AbortSignal,
+  ): Promise<S3DeleteResult> {
+    const objectsXml = keys
+      .map((key) => `<Object><Key>${this.escapeXml(key)}</Key></Object>`)
+      .join("");
+    const body = new TextEncoder().encode(
+      `<?xml version="1.0" encoding="UTF-8"?><Delete><Quiet>false</Quiet>${objectsXml}</Delete>`,
+    );
+
+    // DeleteObjects is the one S3 call that requires Content-MD5
+    const response = await this.sendRequest(
+      "POST",
+      `${this.getBucketUrl()}?delete=`,
+      {
+        key: this.bucketName,
+        headers: {
+          "Content-Type": "application/xml",
+          "Content-MD5": md5Base64(body),
+        },
+        body,
+        signal,
+      },
+    );
+
+    const xmlDoc = new DOMParser().parseFromString(response.text, "text/xml");
+    if (xmlDoc.documentElement?.nodeName === "Error") {
+      throw createS3Error(500, response.text, this.bucketName);
     }
+
+    const result: S3DeleteResult = { deleted: [], errors: new Map() };
+    const field = (element: Element, name: string) =>
+      element.getElementsByTagName(name)[0]?.textContent || "";
+
+    const deleted = xmlDoc.getElementsByTagName("Deleted");
+    for (let i = 0; i < deleted.length; i++) {
+      result.deleted.push(field(deleted[i], "Key"));
+    }
+
+    // Per-key failures come back as <Error> entries inside a 200 response
+    const errors = xmlDoc.getElementsByTagName("Error");
+    for (let i = 0; i < errors.length; i++) {
+      const key = field(errors[i], "Key");
+      const error = createS3Error(
+        0,
+        new XMLSerializer().serializeToString(errors[i]),
+        key,
+        response.getHeader("x-amz-request-id"),
+      );
+      ztoolkit.log(`Delete failed: ${error.describe()}`);
+      result.errors.set(key, error);
+    }
+
+    // Keys missing from the response were not confirmed either way
+    const reported = new Set([...result.deleted, ...result.errors.keys()]);
+    for (const key of keys) {
+      if (!reported.has(key)) {
+        result.errors.set(
+          key,
+          new S3Error("The delete response did not include this key", {
+            code: "InvalidResponse",
+            status: response.status,
+            key,
+          }),
+        );
+      }
+    }
+    return result;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
   }
 
   public reinitialize(): void {
@@ -0,0 +1,365 @@
+/**
+ * S3 Errors
+ * Typed failures raised by S3Manager, built from S3 error responses
+ */
+
+export interface S3ErrorDetails {
+  code: string; // S3 error code, e.g. "NoSuchKey"
+  status: number; // HTTP status, 0 when no response was received
+  requestId?: string;
+  key?: string; // Object key or bucket resource the request targeted
+  retryAfter?: number; // Server-requested wait before retrying (ms)
+}
+
+export class S3Error extends Error {
+  public readonly code: string;
+  public readonly status: number;
+  public readonly requestId?: string;
+  public readonly key?: string;
+  public readonly retryAfter?: number;
+
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message);
+    this.name = "S3Error";
+    this.code = details.code;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.key = details.key;
+    this.retryAfter = details.retryAfter;
+  }
+
+  /**
+   * What the user can do about this failure
+   */
+  public get hint(): string {
+    return "";
+  }
+
+  /**
+   * One-line description suitable for progress windows and logs
+   */
+  public describe(): string {
+    const parts = [`${this.code}: ${this.message}`];
+    if (this.hint) {
+      parts.push(this.hint);
+    }
+    if (this.requestId) {
+      parts.push(`(RequestId: ${this.requestId})`);
+    }
+    return parts.join(" ");
+  }
+}
+
+export class S3NotConfiguredError extends S3Error {
+  constructor() {
+    super("S3 is not configured", { code: "NotConfigured", status: 0 });
+    this.name = "S3NotConfiguredError";
+  }
+
+  public get hint(): string {
+    return "Please fill in all required fields in the S3 Sync settings.";
+  }
+}
+
+export class S3NotFoundError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3NotFoundError";
+  }
+
+  public get hint(): string {
+    return this.code === "NoSuchBucket"
+      ? "Check the bucket name and region."
+      : "";
+  }
+}
+
+export class S3AccessDeniedError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3AccessDeniedError";
+  }
+
+  public get hint(): string {
+    return this.code === "InvalidAccessKeyId"
+      ? "Check the access key ID."
+      : "Check that the access key is allowed to access this bucket and prefix.";
+  }
+}
+
+export class S3SignatureMismatchError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3SignatureMismatchError";
+  }
+
+  public get hint(): string {
+    return "Check the secret access key, region and addressing style.";
+  }
+}
+
+export class S3ExpiredCredentialsError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3ExpiredCredentialsError";
+  }
+
+  public get hint(): string {
+    return "The temporary credentials have expired; check the credential source.";
+  }
+}
+
+/**
+ * The request was signed with a time too far from the server's clock
+ */
+export class S3ClockSkewError extends S3Error {
+  public clockCorrected = false; // The signing clock was adjusted to the server's
+
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3ClockSkewError";
+  }
+
+  public get hint(): string {
+    return "The system clock differs too much from the server's; check the date, time and time zone settings.";
+  }
+}
+
+export class S3EncryptionError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3EncryptionError";
+  }
+
+  public get hint(): string {
+    return "Check the server-side encryption mode and key in the S3 Sync settings.";
+  }
+}
+
+/**
+ * The object is in an archive storage class (InvalidObjectState) or a
+ * restore we requested has not finished yet (RestoreInProgress)
+ */
+export class S3ArchivedObjectError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3ArchivedObjectError";
+  }
+
+  public get hint(): string {
+    return "The object is archived; it is downloaded by a later sync once the restore completes.";
+  }
+}
+
+export class S3PreconditionFailedError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3PreconditionFailedError";
+  }
+}
+
+export class S3SlowDownError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3SlowDownError";
+  }
+
+  public get hint(): string {
+    return "The server is throttling requests; try a lower concurrency.";
+  }
+}
+
+export class S3ServerError extends S3Error {
+  constructor(message: string, details: S3ErrorDetails) {
+    super(message, details);
+    this.name = "S3ServerError";
+  }
+}
+
+export class S3NetworkError extends S3Error {
+  constructor(key?: string) {
+    super("Network error, the server could not be reached", {
+      code: "NetworkError",
+      status: 0,
+      key,
+    });
+    this.name = "S3NetworkError";
+  }
+
+  public get hint(): string {
+    return "Check the endpoint URL and your network connection.";
+  }
+}
+
+export class S3TimeoutError extends S3Error {
+  constructor(key?: string) {
+    super("The request timed out", { code: "Timeout", status: 0, key });
+    this.name = "S3TimeoutError";
+  }
+
+  public get hint(): string {
+    return "Check your network connection or try again later.";
+  }
+}
+
+export class S3AbortError extends S3Error {
+  constructor(key?: string) {
+    super("The request was cancelled", { code: "Aborted", status: 0, key });
+    this.name = "S3AbortError";
+  }
+}
+
+const NOT_FOUND_CODES = [
+  "NoSuchKey",
+  "NoSuchBucket",
+  "NoSuchUpload",
+  "NotFound",
+];
+const ACCESS_DENIED_CODES = [
+  "AccessDenied",
+  "InvalidAccessKeyId",
+  "AccountProblem",
+  "AllAccessDisabled",
+];
+const EXPIRED_CREDENTIALS_CODES = ["ExpiredToken", "TokenRefreshRequired"];
+const SLOW_DOWN_CODES = ["SlowDown", "TooManyRequests", "Throttling"];
+const CLOCK_SKEW_CODES = ["RequestTimeTooSkewed", "RequestExpired"];
+
+/**
+ * Parse the Code/Message/RequestId fields of an S3 <Error> document
+ */
+export function parseS3ErrorXml(
+  text: string,
+): { code?: string; message?: string; requestId?: string } | null {
+  if (!text || !text.includes("<Error")) {
+    return null;
+  }
+
+  try {
+    const xmlDoc = new DOMParser().parseFromString(text, "text/xml");
+    const error = xmlDoc.getElementsByTagName("Error")[0];
+    if (!error) {
+      return null;
+    }
+    const field = (name: string) =>
+      error.getElementsByTagName(name)[0]?.textContent || undefined;
+    return {
+      code: field("Code"),
+      message: field("Message"),
+      requestId: field("RequestId"),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Build the typed error for a failed S3 response.
+ * HEAD responses carry no body, so the status code alone decides the type.
+ */
+export function createS3Error(
+  status: number,
+  body: string,
+  key?: string,
+  requestIdHeader?: string | null,
+  retryAfter?: number,
+): S3Error {
+  const parsed = parseS3ErrorXml(body);
+  const code = parsed?.code || defaultCodeForStatus(status);
+  const message = parsed?.message || `HTTP ${status}`;
+  const details: S3ErrorDetails = {
+    code,
+    status,
+    requestId: parsed?.requestId || requestIdHeader || undefined,
+    key,
+    retryAfter,
+  };
+
+  if (code === "SignatureDoesNotMatch") {
+    return new S3SignatureMismatchError(message, details);
+  }
+  if (
+    code.startsWith("KMS.") ||
+    (code === "InvalidRequest" && /encrypt/i.test(message))
+  ) {
+    return new S3EncryptionError(message, details);
+  }
+  if (code === "InvalidObjectState") {
+    return new S3ArchivedObjectError(message, details);
+  }
+  if (CLOCK_SKEW_CODES.includes(code)) {
+    return new S3ClockSkewError(message, details);
+  }
+  if (EXPIRED_CREDENTIALS_CODES.includes(code)) {
+    return new S3ExpiredCredentialsError(message, details);
+  }
+  if (ACCESS_DENIED_CODES.includes(code)) {
+    return new S3AccessDeniedError(message, details);
+  }
+  if (NOT_FOUND_CODES.includes(code) || status === 404) {
+    return new S3NotFoundError(message, details);
+  }
+  if (status === 412) {
+    return new S3PreconditionFailedError(message, details);
+  }
+  if (SLOW_DOWN_CODES.includes(code) || status === 429 || status === 503) {
+    return new S3SlowDownError(message, details);
+  }
+  if (status >= 500) {
+    return new S3ServerError(message, details);
+  }
+  return new S3Error(message, details);
+}
+
+function defaultCodeForStatus(status: number): string {
+  switch (status) {
+    case 400:
+      return "BadRequest";
+    case 403:
+      return "AccessDenied";
+    case 404:
+      return "NotFound";
+    case 412:
+      return "PreconditionFailed";
+    case 429:
+      return "TooManyRequests";
+    case 503:
+      return "SlowDown";
+    default:
+      return status >= 500 ? "InternalError" : `HTTP${status}`;
+  }
+}
+
+/**
+ * Whether the provider rejected a request because it lacks the feature
+ */
+export function isNotImplemented(error: unknown): boolean {
+  return (
+    error instanceof S3Error &&
+    (error.status === 501 || error.code === "NotImplemented")
+  );
+}
+
+/**
+ * Describe any error thrown during a sync for display to the user
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof S3Error) {
+    return error.describe();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Group failures by error code, e.g. "AccessDenied ×2, NetworkError ×1"
+ */
+export function summarizeErrors(errors: unknown[]): string {
+  const counts = new Map<string, number>();
+  for (const error of errors) {
+    const code = error instanceof S3Error ? error.code : "Error";
+    counts.set(code, (counts.get(code) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([code, count]) => `${code} ×${count}`)
+    .join(", ");
+}
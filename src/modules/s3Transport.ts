@@ -0,0 +1,140 @@
+/**
+ * S3 Transport
+ * Sends signed S3 requests over HTTP. S3Manager only signs requests and
+ * interprets responses, so the sync engine can run against any backend
+ * that implements this interface, e.g. MemoryS3Backend in tests.
+ */
+
+import { S3AbortError, S3NetworkError, S3TimeoutError } from "./s3Errors";
+
+export interface S3TransportRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>; // Already signed
+  body?: Uint8Array;
+  responseType?: "text" | "arraybuffer";
+  timeout?: number; // Whole request, milliseconds, 0 for none
+  connectTimeout?: number; // Until the first byte moves, milliseconds
+  idleTimeout?: number; // Longest pause between progress events, milliseconds
+  signal?: AbortSignal; // Cancels the request
+  key?: string; // Object key or resource, attached to errors for context
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+export interface S3Response {
+  status: number;
+  statusText: string;
+  text: string; // Empty for binary response types
+  body: any; // ArrayBuffer for "arraybuffer" responses, otherwise the text
+  getHeader(name: string): string | null;
+}
+
+export interface S3Transport {
+  /**
+   * Send a request and resolve with the response, whatever its status.
+   * Rejects with S3NetworkError or S3TimeoutError when no response arrives,
+   * and with S3AbortError when the signal aborts.
+   */
+  send(request: S3TransportRequest): Promise<S3Response>;
+}
+
+/**
+ * Default transport using XMLHttpRequest
+ */
+export class XhrTransport implements S3Transport {
+  public send(request: S3TransportRequest): Promise<S3Response> {
+    const { method, url, signal } = request;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new S3AbortError(request.key));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (error: Error | null, response?: S3Response) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(response!);
+        }
+      };
+
+      // A single timer covers the connect phase and then every gap between
+      // progress events, so a stalled transfer fails instead of hanging
+      const armTimer = (ms: number | undefined, phase: string) => {
+        clearTimeout(timer);
+        if (!ms) {
+          return;
+        }
+        timer = setTimeout(() => {
+          ztoolkit.log(`Request ${phase} timed out: ${method} ${url}`);
+          xhr.abort();
+          settle(new S3TimeoutError(request.key));
+        }, ms);
+      };
+      const onActivity = () => armTimer(request.idleTimeout, "idle");
+
+      const onAbort = () => {
+        ztoolkit.log(`Request cancelled: ${method} ${url}`);
+        xhr.abort();
+        settle(new S3AbortError(request.key));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      xhr.open(method, url, true);
+      if (request.responseType) {
+        xhr.responseType = request.responseType;
+      }
+      if (request.timeout) {
+        xhr.timeout = request.timeout;
+      }
+
+      Object.keys(request.headers).forEach((key) => {
+        xhr.setRequestHeader(key, request.headers[key]);
+      });
+
+      const onUploadProgress = request.onUploadProgress;
+      xhr.upload.addEventListener("progress", (e: any) => {
+        onActivity();
+        if (onUploadProgress && e.lengthComputable) {
+          onUploadProgress(e.loaded, e.total);
+        }
+      });
+      xhr.addEventListener("progress", onActivity);
+      xhr.onreadystatechange = () => {
+        if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+          onActivity();
+        }
+      };
+
+      xhr.onload = () => {
+        const isText = !xhr.responseType || xhr.responseType === "text";
+        settle(null, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          text: isText ? xhr.responseText || "" : "",
+          body: xhr.response,
+          getHeader: (name) => xhr.getResponseHeader(name),
+        });
+      };
+
+      xhr.onerror = () => {
+        ztoolkit.log(`Network error: ${method} ${url}`);
+        settle(new S3NetworkError(request.key));
+      };
+
+      xhr.ontimeout = () => {
+        ztoolkit.log(`Request timed out: ${method} ${url}`);
+        settle(new S3TimeoutError(request.key));
+      };
+
+      armTimer(request.connectTimeout, "connect");
+      xhr.send(request.body ?? null);
+    });
+  }
+}
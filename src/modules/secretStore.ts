@@ -0,0 +1,128 @@
+/**
+ * Secret Store
+ * Keeps S3 secrets in the Firefox login manager instead of prefs.js
+ */
+
+import { config } from "../../package.json";
+import { clearPref, getPref } from "../utils/prefs";
+
+export type SecretName =
+  | "secretAccessKey"
+  | "sessionToken"
+  | "sseCustomerKey"
+  | "encryptionPassphrase";
+
+// Plaintext prefs that older versions stored secrets in
+const LEGACY_PREFS: {
+  [name in SecretName]?: "s3.secretAccessKey" | "s3.sessionToken";
+} = {
+  secretAccessKey: "s3.secretAccessKey",
+  sessionToken: "s3.sessionToken",
+};
+
+export class SecretStore {
+  private static readonly ORIGIN = `chrome://${config.addonRef}`;
+
+  // Logins are keyed by endpoint and bucket so switching targets never sends
+  // one account's secret to another
+  private readonly realm: string;
+
+  constructor(endpoint: string, bucketName: string) {
+    this.realm = `${endpoint.trim().replace(/\/+$/, "")}/${bucketName.trim()}`;
+  }
+
+  /**
+   * Store for the endpoint and bucket currently set in the prefs
+   */
+  public static fromPrefs(): SecretStore {
+    return new SecretStore(
+      (getPref("s3.endpoint") as string) || "",
+      (getPref("s3.bucketName") as string) || "",
+    );
+  }
+
+  private findLogin(name: SecretName): nsILoginInfo | null {
+    // An empty action origin matches any, including the null of our logins
+    const logins = Services.logins.findLogins(
+      SecretStore.ORIGIN,
+      "",
+      this.realm,
+    );
+    return logins.find((login) => login.username === name) || null;
+  }
+
+  public get(name: SecretName): string {
+    try {
+      return this.findLogin(name)?.password || "";
+    } catch (error) {
+      // The login store is unavailable while the primary password is locked
+      ztoolkit.log(`Error reading secret ${name}:`, error);
+      return "";
+    }
+  }
+
+  public has(name: SecretName): boolean {
+    return !!this.get(name);
+  }
+
+  /**
+   * Save a secret, replacing any previous value. An empty value removes it.
+   */
+  public async set(name: SecretName, value: string): Promise<void> {
+    if (!value) {
+      this.remove(name);
+      return;
+    }
+
+    // @ts-expect-error - Zotero XPCOM types
+    const login = Components.classes[
+      "@mozilla.org/login-manager/loginInfo;1"
+    ].createInstance(Components.interfaces.nsILoginInfo);
+    login.init(SecretStore.ORIGIN, null, this.realm, name, value, "", "");
+
+    const existing = this.findLogin(name);
+    if (existing) {
+      Services.logins.modifyLogin(existing, login);
+    } else {
+      await Services.logins.addLoginAsync(login);
+    }
+  }
+
+  public remove(name: SecretName): void {
+    const existing = this.findLogin(name);
+    if (existing) {
+      Services.logins.removeLogin(existing);
+    }
+  }
+
+  /**
+   * Whether older versions left secrets in plaintext prefs
+   */
+  public hasLegacySecrets(): boolean {
+    return Object.values(LEGACY_PREFS).some(
+      (pref) => !!((getPref(pref) as string) || "").trim(),
+    );
+  }
+
+  /**
+   * Move secrets left in plaintext prefs into the login manager and clear
+   * the prefs. A pref is only cleared once its value has been stored.
+   */
+  public async migrateFromPrefs(): Promise<void> {
+    for (const name of Object.keys(LEGACY_PREFS) as SecretName[]) {
+      const pref = LEGACY_PREFS[name]!;
+      const value = ((getPref(pref) as string) || "").trim();
+      if (!value) {
+        continue;
+      }
+
+      try {
+        await this.set(name, value);
+        clearPref(pref);
+        ztoolkit.log(`Migrated ${pref} to the login manager`);
+      } catch (error) {
+        ztoolkit.log(`Error migrating ${pref}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Share Links
+ * Copies a presigned S3 download link for the selected attachment
+ */
+
+import { getPref } from "../utils/prefs";
+import { describeError } from "./s3Errors";
+
+/**
+ * Resolve the selected item to a file attachment: the attachment itself, or
+ * the best attachment of a regular item
+ */
+async function getSelectedAttachment(): Promise<Zotero.Item | null> {
+  const item = Zotero.getActiveZoteroPane()?.getSelectedItems()[0];
+  if (!item) {
+    return null;
+  }
+  const attachment = item.isAttachment()
+    ? item
+    : await item.getBestAttachment();
+  return attachment && attachment.isFileAttachment() ? attachment : null;
+}
+
+export async function copyShareLink(): Promise<void> {
+  const progressWindow = new ztoolkit.ProgressWindow("S3 分享链接", {
+    closeOnClick: true,
+  });
+
+  const attachment = await getSelectedAttachment();
+  if (!attachment || !addon.data.syncManager) {
+    progressWindow
+      .createLine({ text: "所选条目没有可分享的附件文件", type: "error" })
+      .show();
+    progressWindow.startCloseTimer(5000);
+    return;
+  }
+
+  try {
+    const url = await addon.data.syncManager.createShareLink(
+      attachment.key,
+      attachment.attachmentFilename,
+      attachment.attachmentContentType || undefined,
+    );
+    Zotero.Utilities.Internal.copyTextToClipboard(url);
+
+    const expiryHours = (getPref("s3.shareLinkExpiry") as number) || 24;
+    progressWindow
+      .createLine({
+        text: `分享链接已复制到剪贴板（${expiryHours} 小时内有效）`,
+        type: "success",
+      })
+      .show();
+    progressWindow.startCloseTimer(3000);
+  } catch (error) {
+    ztoolkit.log(`Error creating share link for ${attachment.key}:`, error);
+    progressWindow
+      .createLine({
+        text: `无法创建分享链接: ${describeError(error)}`,
+        type: "error",
+      })
+      .show();
+    progressWindow.startCloseTimer(10000);
+  }
+}
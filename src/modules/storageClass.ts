@@ -0,0 +1,84 @@
+/**
+ * Storage Class
+ * Picks the S3 storage class for an upload from the default class and the
+ * size / age rules set in the prefs
+ */
+
+import { getPref } from "../utils/prefs";
+
+// Classes whose objects must be restored before they can be read
+export const ARCHIVE_STORAGE_CLASSES = ["GLACIER", "DEEP_ARCHIVE"];
+
+export interface StorageClassRule {
+  field: "size" | "age"; // Size in MB, or days since the file was modified
+  min: number; // Rule applies at or above this value
+  storageClass: string;
+}
+
+export class StorageClassPolicy {
+  private readonly defaultClass: string;
+  private readonly rules: StorageClassRule[];
+
+  constructor(defaultClass: string, rules: StorageClassRule[]) {
+    this.defaultClass = defaultClass;
+    this.rules = rules;
+  }
+
+  /**
+   * Build from the s3.storageClass and s3.storageClassRules prefs
+   */
+  public static fromPrefs(): StorageClassPolicy {
+    return new StorageClassPolicy(
+      ((getPref("s3.storageClass") as string) || "").trim().toUpperCase(),
+      StorageClassPolicy.parseRules(
+        (getPref("s3.storageClassRules") as string) || "",
+      ),
+    );
+  }
+
+  /**
+   * Parse rules such as "size>=50:STANDARD_IA, age>=365:GLACIER_IR".
+   * Entries that do not parse are logged and skipped.
+   */
+  public static parseRules(text: string): StorageClassRule[] {
+    const rules: StorageClassRule[] = [];
+    for (const entry of text.split(/[,;\n]/)) {
+      const trimmed = entry.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      const match = trimmed.match(
+        /^(size|age)\s*>=\s*(\d+(?:\.\d+)?)\s*:\s*([A-Za-z_]+)$/i,
+      );
+      if (!match) {
+        ztoolkit.log(`Ignoring invalid storage class rule: ${trimmed}`);
+        continue;
+      }
+      rules.push({
+        field: match[1].toLowerCase() as "size" | "age",
+        min: parseFloat(match[2]),
+        storageClass: match[3].toUpperCase(),
+      });
+    }
+    return rules;
+  }
+
+  /**
+   * Storage class for a file, or undefined to use the bucket default.
+   * The first matching rule wins.
+   */
+  public getStorageClass(size: number, modTime: number): string | undefined {
+    const sizeMB = size / (1024 * 1024);
+    const ageDays = modTime ? (Date.now() - modTime) / (24 * 3600 * 1000) : 0;
+
+    const rule = this.rules.find((r) =>
+      r.field === "size" ? sizeMB >= r.min : ageDays >= r.min,
+    );
+    return rule?.storageClass || this.defaultClass || undefined;
+  }
+}
+
+export function isArchiveStorageClass(storageClass?: string): boolean {
+  return !!storageClass && ARCHIVE_STORAGE_CLASSES.includes(storageClass);
+}
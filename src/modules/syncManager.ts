@@ -1,5 +1,34 @@
-import { S3Manager, S3FileMetadata } from "./s3Client";
-import { SyncMetadataManager } from "./syncMetadata";
+import {
+  S3Manager,
+  S3DeleteResult,
+  S3FileMetadata,
+  S3ObjectVersion,
+  S3UploadOptions,
+} from "./s3Client";
+import {
+  S3AbortError,
+  S3ArchivedObjectError,
+  S3Error,
+  S3NotFoundError,
+  S3PreconditionFailedError,
+  describeError,
+  isNotImplemented,
+  summarizeErrors,
+} from "./s3Errors";
+import { FileMetadata, SyncMetadataManager } from "./syncMetadata";
+import {
+  ClientEncryption,
+  ClientEncryptionError,
+  EncryptionKeyCheck,
+} from "./clientEncryption";
+import { SecretStore } from "./secretStore";
+import {
+  compressFile,
+  decompressFile,
+  getCompressionFormat,
+} from "./compression";
+import { StorageClassPolicy } from "./storageClass";
+import { buildObjectTags, isObjectTaggingEnabled } from "./objectTags";
 import { getPref, setPref } from "../utils/prefs";
 
 type SyncOperationType =
@@ -19,6 +48,7 @@ interface SyncOperation {
   remoteModTime?: number;
   lastSyncHash?: string;
   filePath?: string;
+  remoteObject?: { etag: string; size: number }; // Listed object of a no-change file
 }
 
 interface SyncOperations {
@@ -46,6 +76,10 @@ interface SyncConflict {
   resolution?: "upload" | "download" | "skip";
 }
 
+export interface AttachmentVersion extends S3ObjectVersion {
+  hash: string; // MD5 of the original file, or the ETag if the version has none
+}
+
 type ConflictResolutionStrategy =
   | "ask"
   | "local-wins"
@@ -60,27 +94,40 @@ export class SyncManager {
   private static readonly METADATA_FILE_KEY = ".zotero-sync-metadata.json";
   private hasCloudMetadata: boolean = false; // Track if cloud has sync records
   private static readonly DEFAULT_CONCURRENCY = 3; // Default concurrent operations
-
-  constructor() {
-    this.s3Manager = new S3Manager();
+  private encryption: ClientEncryption | null = null; // Set while client-side encryption is enabled
+  private encryptionCacheKey = ""; // Passphrase and salt the current keys were derived from
+  private cloudMetadataETag: string | null = null; // ETag of the downloaded sync records, null if none exist
+  private abortController: AbortController | null = null; // Cancels the running sync
+  private remoteDeletions = new Set<string>(); // Attachment keys this sync deleted from S3
+  private static readonly MAX_METADATA_WRITE_ATTEMPTS = 5;
+
+  constructor(s3Manager: S3Manager = new S3Manager()) {
+    this.s3Manager = s3Manager;
     this.metadataManager = new SyncMetadataManager();
   }
 
   /**
-   * Execute operations concurrently with a limit
+   * Execute operations concurrently with a limit.
+   * Once the signal aborts no further batches are started; operations in
+   * flight end with S3AbortError, which is not counted as a failure.
    */
   private async executeConcurrently<T>(
     items: T[],
     executor: (item: T) => Promise<boolean>,
     onProgress: (completed: number, total: number, item: T) => void,
     concurrency: number = SyncManager.DEFAULT_CONCURRENCY,
-  ): Promise<{ completed: number; failed: number }> {
+    signal?: AbortSignal,
+  ): Promise<{ completed: number; failed: number; errors: unknown[] }> {
     let completed = 0;
     let failed = 0;
+    const errors: unknown[] = [];
     const total = items.length;
 
     // Process items in batches
     for (let i = 0; i < items.length; i += concurrency) {
+      if (signal?.aborted) {
+        break;
+      }
       const batch = items.slice(i, i + concurrency);
 
       const results = await Promise.allSettled(
@@ -89,7 +136,11 @@ export class SyncManager {
             const success = await executor(item);
             return { success, item };
           } catch (error) {
+            if (error instanceof S3AbortError) {
+              return { success: false, item, aborted: true };
+            }
             ztoolkit.log(`Error executing operation:`, error);
+            errors.push(error);
             return { success: false, item };
           }
         }),
@@ -97,6 +148,9 @@ export class SyncManager {
 
       for (const result of results) {
         if (result.status === "fulfilled") {
+          if ("aborted" in result.value) {
+            continue;
+          }
           if (result.value.success) {
             completed++;
           } else {
@@ -109,7 +163,13 @@ export class SyncManager {
       }
     }
 
-    return { completed, failed };
+    return { completed, failed, errors };
+  }
+
+  private getConcurrency(): number {
+    return (
+      (getPref("sync.concurrency") as number) || SyncManager.DEFAULT_CONCURRENCY
+    );
   }
 
   /**
@@ -120,6 +180,138 @@ export class SyncManager {
     return `${prefix}/${SyncManager.METADATA_FILE_KEY}`;
   }
 
+  /**
+   * Get the client-side encryption key check file key in S3
+   */
+  private getKeyCheckS3Key(): string {
+    const prefix = (getPref("s3.prefix") as string) || "zotero-attachments";
+    return `${prefix}/${ClientEncryption.KEY_CHECK_FILE}`;
+  }
+
+  /**
+   * Unlock client-side encryption for this bucket, or disable it.
+   * The first encrypted sync stores a key check next to the manifest; later
+   * syncs verify the passphrase against it before anything is downloaded,
+   * so a wrong passphrase aborts the sync instead of overwriting files.
+   */
+  private async prepareEncryption(signal?: AbortSignal): Promise<void> {
+    if (!getPref("sync.clientEncryption")) {
+      this.encryption = null;
+      return;
+    }
+
+    const passphrase = SecretStore.fromPrefs().get("encryptionPassphrase");
+    if (!passphrase) {
+      throw new ClientEncryptionError(
+        "Client-side encryption is enabled but no passphrase has been saved",
+        { code: "MissingPassphrase", status: 0 },
+      );
+    }
+
+    const keyCheckKey = this.getKeyCheckS3Key();
+    let keyCheck: EncryptionKeyCheck | null = null;
+    try {
+      keyCheck = await this.downloadKeyCheck(keyCheckKey, signal);
+    } catch (error) {
+      if (!(error instanceof S3NotFoundError)) {
+        throw error;
+      }
+    }
+
+    if (!keyCheck) {
+      ztoolkit.log("创建客户端加密密钥校验文件");
+      const created = await ClientEncryption.create(passphrase);
+      // Only create it if no other device did in the meantime, or the last
+      // write would leave the others encrypting with a key nobody can check
+      try {
+        await this.writeConditionally(
+          new Blob([JSON.stringify(created.keyCheck)], {
+            type: "application/json",
+          }),
+          keyCheckKey,
+          { ifNoneMatch: true },
+          signal,
+        );
+        this.encryption = created.encryption;
+        this.encryptionCacheKey = `${passphrase}\n${created.keyCheck.salt}`;
+        return;
+      } catch (error) {
+        if (!this.isMetadataWriteConflict(error)) {
+          throw error;
+        }
+        ztoolkit.log("其他设备已创建密钥校验文件，改用云端的校验文件");
+        keyCheck = await this.downloadKeyCheck(keyCheckKey, signal);
+      }
+    }
+
+    // Key derivation is deliberately slow; reuse keys while nothing changed
+    const cacheKey = `${passphrase}\n${keyCheck.salt}`;
+    if (this.encryption && this.encryptionCacheKey === cacheKey) {
+      return;
+    }
+    this.encryption = await ClientEncryption.unlock(passphrase, keyCheck);
+    this.encryptionCacheKey = cacheKey;
+    ztoolkit.log("客户端加密密码校验通过");
+  }
+
+  private async downloadKeyCheck(
+    keyCheckKey: string,
+    signal?: AbortSignal,
+  ): Promise<EncryptionKeyCheck> {
+    const blob = await this.s3Manager.downloadFile(keyCheckKey, signal);
+    return JSON.parse(await blob.text()) as EncryptionKeyCheck;
+  }
+
+  /**
+   * Download an attachment to filePath, decrypting and decompressing it as
+   * needed. The existing local file is only replaced once the whole object
+   * has been downloaded and restored to its original content.
+   * Resolves with the stored object's metadata.
+   */
+  private async downloadToLocalFile(
+    s3Key: string,
+    filePath: string,
+    versionId?: string,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata> {
+    const downloadPath = `${filePath}.s3sync-download`;
+    const decryptedPath = `${filePath}.s3sync-decrypted`;
+    const decompressedPath = `${filePath}.s3sync-decompressed`;
+
+    try {
+      const meta = await this.s3Manager.downloadFileToPath(
+        s3Key,
+        downloadPath,
+        { versionId, signal },
+      );
+      let resultPath = downloadPath;
+
+      if (await ClientEncryption.isEncryptedFile(resultPath)) {
+        if (!this.encryption) {
+          throw new ClientEncryptionError(
+            "The remote file is client-side encrypted; enable encryption and enter the passphrase",
+            { code: "EncryptionRequired", status: 0, key: s3Key },
+          );
+        }
+        await this.encryption.decryptFile(resultPath, decryptedPath);
+        resultPath = decryptedPath;
+      }
+
+      // Compression is applied before encryption, so it is undone last
+      if (meta.compression) {
+        await decompressFile(resultPath, decompressedPath, meta.compression);
+        resultPath = decompressedPath;
+      }
+
+      await IOUtils.move(resultPath, filePath);
+      return meta;
+    } finally {
+      await IOUtils.remove(downloadPath, { ignoreAbsent: true });
+      await IOUtils.remove(decryptedPath, { ignoreAbsent: true });
+      await IOUtils.remove(decompressedPath, { ignoreAbsent: true });
+    }
+  }
+
   /**
    * Generate a unique bucket identifier
    */
@@ -131,24 +323,51 @@ export class SyncManager {
 
   /**
    * Download metadata from S3
+   * Only a missing manifest counts as a first sync; any other S3 failure is
+   * thrown so the sync stops instead of treating the bucket as empty.
    */
-  private async downloadCloudMetadata(): Promise<boolean> {
-    try {
-      const metadataKey = this.getMetadataS3Key();
-      ztoolkit.log(`尝试下载云端元数据: ${metadataKey}`);
+  private async downloadCloudMetadata(signal?: AbortSignal): Promise<boolean> {
+    const metadataKey = this.getMetadataS3Key();
+    ztoolkit.log(`尝试下载云端元数据: ${metadataKey}`);
 
-      const blob = await this.s3Manager.downloadFile(metadataKey);
-
-      if (!blob) {
+    let blob: Blob;
+    try {
+      const result = await this.s3Manager.downloadFileWithETag(
+        metadataKey,
+        signal,
+      );
+      blob = result.blob;
+      this.cloudMetadataETag = result.etag || null;
+    } catch (error) {
+      if (error instanceof S3NotFoundError) {
         ztoolkit.log("云端元数据不存在（首次同步或新存储桶）");
+        this.cloudMetadataETag = null;
         this.hasCloudMetadata = false;
         return false;
       }
+      ztoolkit.log("下载云端元数据失败:", error);
+      throw error;
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (ClientEncryption.isEncrypted(bytes)) {
+      if (!this.encryption) {
+        throw new ClientEncryptionError(
+          "The cloud sync records are client-side encrypted; enable encryption and enter the passphrase",
+          { code: "EncryptionRequired", status: 0, key: metadataKey },
+        );
+      }
+      // A failure here means a wrong key or tampering, so abort the sync
+      blob = new Blob([await this.encryption.decryptBytes(bytes)]);
+    }
 
+    try {
       const cloudMetadata = await this.metadataManager.loadFromBlob(blob);
       const currentBucketId = this.getBucketId();
 
-      ztoolkit.log(`云端元数据加载成功: ${Object.keys(cloudMetadata.files).length} 个文件记录`);
+      ztoolkit.log(
+        `云端元数据加载成功: ${Object.keys(cloudMetadata.files).length} 个文件记录`,
+      );
 
       // Check if we're switching buckets
       const localBucketId = this.metadataManager.getBucketId();
@@ -169,41 +388,123 @@ export class SyncManager {
       this.hasCloudMetadata = true;
       return true;
     } catch (error) {
-      ztoolkit.log("下载云端元数据失败:", error);
+      ztoolkit.log("加载云端元数据失败:", error);
       this.hasCloudMetadata = false;
       return false;
     }
   }
 
   /**
-   * Upload metadata to S3
+   * Upload metadata to S3 as a compare-and-swap.
+   * The write is conditional on the ETag seen by downloadCloudMetadata (or
+   * on the file not existing yet). If another device wrote in between, its
+   * records are downloaded and merged before trying again, so concurrent
+   * syncs never drop each other's entries.
    */
-  private async uploadCloudMetadata(): Promise<boolean> {
-    try {
-      const metadataKey = this.getMetadataS3Key();
-      const currentBucketId = this.getBucketId();
-
+  private async uploadCloudMetadata(): Promise<void> {
+    const metadataKey = this.getMetadataS3Key();
+    const currentBucketId = this.getBucketId();
+
+    for (
+      let attempt = 1;
+      attempt <= SyncManager.MAX_METADATA_WRITE_ATTEMPTS;
+      attempt++
+    ) {
       // Set bucket ID before uploading
       this.metadataManager.setBucketId(currentBucketId);
 
-      const blob = this.metadataManager.toBlob();
-      ztoolkit.log(`上传云端元数据到: ${metadataKey}`);
-
-      const success = await this.s3Manager.uploadFile(blob, metadataKey);
+      let blob = this.metadataManager.toBlob();
+      if (this.encryption) {
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        blob = new Blob([await this.encryption.encryptBytes(bytes)]);
+      }
+      ztoolkit.log(`上传云端元数据到: ${metadataKey} (第 ${attempt} 次)`);
 
-      if (success) {
+      try {
+        this.cloudMetadataETag = await this.writeCloudMetadata(
+          blob,
+          metadataKey,
+        );
         ztoolkit.log("云端元数据上传成功");
-      } else {
-        ztoolkit.log("云端元数据上传失败");
+        return;
+      } catch (error) {
+        if (
+          !this.isMetadataWriteConflict(error) ||
+          attempt === SyncManager.MAX_METADATA_WRITE_ATTEMPTS
+        ) {
+          ztoolkit.log("上传云端元数据失败:", error);
+          throw error;
+        }
+        ztoolkit.log("云端元数据已被其他设备更新，重新下载并合并");
+        await this.downloadCloudMetadata();
+        // The merge brings back the records of objects this sync deleted
+        for (const attachmentKey of this.remoteDeletions) {
+          this.metadataManager.removeFileMetadata(attachmentKey);
+        }
       }
+    }
+  }
+
+  /**
+   * Write the sync records, conditionally where the provider supports it
+   */
+  private async writeCloudMetadata(
+    blob: Blob,
+    metadataKey: string,
+  ): Promise<string> {
+    return this.writeConditionally(
+      blob,
+      metadataKey,
+      this.cloudMetadataETag
+        ? { ifMatch: this.cloudMetadataETag }
+        : { ifNoneMatch: true },
+    );
+  }
+
+  /**
+   * Upload with If-Match / If-None-Match where the provider supports it.
+   * Providers that reject conditional headers fall back to a plain overwrite,
+   * which is remembered in their capabilities.
+   */
+  private async writeConditionally(
+    blob: Blob,
+    key: string,
+    condition: Pick<S3UploadOptions, "ifMatch" | "ifNoneMatch">,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    if (
+      this.s3Manager.getCapabilities()?.conditionalWrites === false ||
+      !(getPref("s3.conditionalWrites") as boolean)
+    ) {
+      return this.s3Manager.uploadFile(blob, key, { signal });
+    }
 
-      return success;
+    try {
+      return await this.s3Manager.uploadFile(blob, key, {
+        ...condition,
+        signal,
+      });
     } catch (error) {
-      ztoolkit.log("上传云端元数据失败:", error);
-      return false;
+      if (isNotImplemented(error)) {
+        ztoolkit.log("存储服务不支持条件写入，改为直接覆盖");
+        this.s3Manager.updateCapabilities({ conditionalWrites: false });
+        return this.s3Manager.uploadFile(blob, key, { signal });
+      }
+      throw error;
     }
   }
 
+  /**
+   * 412 means the ETag no longer matches; S3 answers 409 when another
+   * conditional write to the same key is still in flight
+   */
+  private isMetadataWriteConflict(error: unknown): boolean {
+    return (
+      error instanceof S3PreconditionFailedError ||
+      (error instanceof S3Error && error.code === "ConditionalRequestConflict")
+    );
+  }
+
   /**
    * Show first-time sync strategy dialog using native prompt
    * @returns "upload-all" | "download-all" | "merge" | "cancel"
@@ -227,7 +528,7 @@ export class SyncManager {
 • 合并：保留双方文件，但可能产生冲突`;
 
     const Services = Components.utils.import(
-      "resource://gre/modules/Services.jsm"
+      "resource://gre/modules/Services.jsm",
     ).Services;
 
     const buttonFlags =
@@ -245,7 +546,7 @@ export class SyncManager {
       "上传到云端",
       "从云端下载",
       null,
-      {}
+      {},
     );
 
     ztoolkit.log("用户选择结果:", result);
@@ -271,6 +572,7 @@ export class SyncManager {
    */
   private async compareFilesAndDetermineSyncOperations(
     isIncremental: boolean,
+    signal?: AbortSignal,
   ): Promise<SyncOperations> {
     const operations: SyncOperations = {
       upload: [],
@@ -299,26 +601,38 @@ export class SyncManager {
       });
     }
 
-    // Get all remote files
+    // Get all remote files; content hashes are filled in by fetchRemoteHashes
     const prefix = (getPref("s3.prefix") as string) || "zotero-attachments";
     const remoteFiles = await this.s3Manager.listFilesWithMetadata(
       prefix,
-      true,
+      false,
+      signal,
     );
     const remoteFilesMap = new Map<string, S3FileMetadata>();
 
-    ztoolkit.log(`获取到 ${remoteFiles.length} 个远程文件（prefix: ${prefix}）`);
+    ztoolkit.log(
+      `获取到 ${remoteFiles.length} 个远程文件（prefix: ${prefix}）`,
+    );
 
     // If no files found with prefix, try listing all files to diagnose
     if (remoteFiles.length === 0) {
       ztoolkit.log(`使用 prefix="${prefix}" 未找到文件，尝试列出所有文件...`);
-      const allFiles = await this.s3Manager.listFilesWithMetadata("");
-      ztoolkit.log(`Bucket 中共有 ${allFiles.length} 个文件：`);
-      for (let i = 0; i < Math.min(10, allFiles.length); i++) {
-        ztoolkit.log(`  - ${allFiles[i].key}`);
-      }
-      if (allFiles.length > 10) {
-        ztoolkit.log(`  ... 还有 ${allFiles.length - 10} 个文件`);
+      try {
+        const allFiles = await this.s3Manager.listFilesWithMetadata(
+          "",
+          false,
+          signal,
+        );
+        ztoolkit.log(`Bucket 中共有 ${allFiles.length} 个文件：`);
+        for (let i = 0; i < Math.min(10, allFiles.length); i++) {
+          ztoolkit.log(`  - ${allFiles[i].key}`);
+        }
+        if (allFiles.length > 10) {
+          ztoolkit.log(`  ... 还有 ${allFiles.length - 10} 个文件`);
+        }
+      } catch (error) {
+        // Diagnostics only; the key may be limited to the prefix
+        ztoolkit.log(`列出所有文件失败: ${describeError(error)}`);
       }
     }
 
@@ -328,17 +642,25 @@ export class SyncManager {
         ? remoteFile.key.slice(prefix.length + 1)
         : remoteFile.key;
 
-      // Skip metadata file
-      if (attachmentKey === SyncManager.METADATA_FILE_KEY) {
+      // Skip metadata, encryption key check and capability probe files
+      if (
+        attachmentKey === SyncManager.METADATA_FILE_KEY ||
+        attachmentKey === ClientEncryption.KEY_CHECK_FILE ||
+        attachmentKey === S3Manager.PROBE_OBJECT
+      ) {
         ztoolkit.log(`跳过元数据文件: ${remoteFile.key}`);
         continue;
       }
 
       remoteFilesMap.set(attachmentKey, remoteFile);
-      ztoolkit.log(`远程文件: ${remoteFile.key} -> attachment key: ${attachmentKey}`);
+      ztoolkit.log(
+        `远程文件: ${remoteFile.key} -> attachment key: ${attachmentKey}`,
+      );
     }
 
-    ztoolkit.log(`本地文件数量: ${localFiles.size}, 远程文件数量: ${remoteFilesMap.size}`);
+    ztoolkit.log(
+      `本地文件数量: ${localFiles.size}, 远程文件数量: ${remoteFilesMap.size}`,
+    );
 
     // Get all metadata (last sync state)
     ztoolkit.log("正在获取元数据...");
@@ -351,6 +673,13 @@ export class SyncManager {
       allMetadata = {};
     }
 
+    await this.fetchRemoteHashes(
+      localFiles,
+      remoteFilesMap,
+      allMetadata,
+      signal,
+    );
+
     // Combine all keys from local, remote, and metadata
     const allKeys = new Set([
       ...localFiles.keys(),
@@ -364,13 +693,17 @@ export class SyncManager {
     let processedCount = 0;
     for (const attachmentKey of allKeys) {
       processedCount++;
-      ztoolkit.log(`[${processedCount}/${allKeys.size}] 正在分析: ${attachmentKey}`);
+      ztoolkit.log(
+        `[${processedCount}/${allKeys.size}] 正在分析: ${attachmentKey}`,
+      );
 
       const local = localFiles.get(attachmentKey);
       const remote = remoteFilesMap.get(attachmentKey);
       const metadata = allMetadata[attachmentKey];
 
-      ztoolkit.log(`  - local存在: ${!!local}, remote存在: ${!!remote}, metadata存在: ${!!metadata}`);
+      ztoolkit.log(
+        `  - local存在: ${!!local}, remote存在: ${!!remote}, metadata存在: ${!!metadata}`,
+      );
 
       try {
         const operation = await this.determineOperation(
@@ -382,6 +715,9 @@ export class SyncManager {
         );
 
         ztoolkit.log(`  - 决策结果: ${operation.type}`);
+        if (operation.type === "no-change" && remote) {
+          operation.remoteObject = { etag: remote.etag, size: remote.size };
+        }
 
         // Categorize operation
         switch (operation.type) {
@@ -415,7 +751,8 @@ export class SyncManager {
     // Check if this is first-time sync with data on both sides
     if (!this.hasCloudMetadata) {
       const hasLocalFiles = operations.upload.length > 0 || localFiles.size > 0;
-      const hasRemoteFiles = operations.download.length > 0 || remoteFilesMap.size > 0;
+      const hasRemoteFiles =
+        operations.download.length > 0 || remoteFilesMap.size > 0;
 
       if (hasLocalFiles && hasRemoteFiles) {
         ztoolkit.log("检测到首次同步且本地和远程都有数据");
@@ -436,6 +773,77 @@ export class SyncManager {
     return operations;
   }
 
+  /**
+   * Fill in the content hash (x-amz-meta-md5) of remote files that exist
+   * locally. The sync records are authoritative for objects whose listed
+   * ETag and size match what was recorded; only the others get a HEAD
+   * request, run concurrently.
+   */
+  private async fetchRemoteHashes(
+    localFiles: Map<string, { hash: string }>,
+    remoteFiles: Map<string, S3FileMetadata>,
+    records: { [attachmentKey: string]: FileMetadata },
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const unknown: S3FileMetadata[] = [];
+    for (const [attachmentKey, remoteFile] of remoteFiles) {
+      // Remote-only and missing local files are downloaded without comparing
+      if (!localFiles.get(attachmentKey)?.hash) {
+        continue;
+      }
+      const record = records[attachmentKey];
+      if (
+        record?.remoteEtag === remoteFile.etag &&
+        record.remoteSize === remoteFile.size &&
+        record.hash
+      ) {
+        remoteFile.metaMd5 = record.hash;
+      } else {
+        unknown.push(remoteFile);
+      }
+    }
+
+    ztoolkit.log(
+      `${remoteFiles.size - unknown.length} 个远程文件使用同步记录中的哈希，${unknown.length} 个需要读取对象元数据`,
+    );
+    if (unknown.length === 0) {
+      return;
+    }
+
+    const result = await this.executeConcurrently(
+      unknown,
+      async (remoteFile) => {
+        try {
+          const meta = await this.s3Manager.getObjectMetadata(
+            remoteFile.key,
+            undefined,
+            signal,
+          );
+          if (meta.metaMd5) {
+            remoteFile.metaMd5 = meta.metaMd5;
+          }
+        } catch (error) {
+          // Deleted between listing and HEAD; keep the listing entry
+          if (!(error instanceof S3NotFoundError)) {
+            throw error;
+          }
+        }
+        return true;
+      },
+      () => {},
+      this.getConcurrency(),
+      signal,
+    );
+
+    // Comparing without a hash could mistake a remote change for none
+    if (signal?.aborted) {
+      throw new S3AbortError();
+    }
+    if (result.errors.length > 0) {
+      throw result.errors[0];
+    }
+  }
+
   /**
    * Get all attachments from all libraries
    */
@@ -478,7 +886,8 @@ export class SyncManager {
 
               const hash = shouldHash
                 ? await this.getFileHash(file)
-                : this.getStoredHash(item.key) || (await this.getFileHash(file));
+                : this.getStoredHash(item.key) ||
+                  (await this.getFileHash(file));
 
               items.push({
                 itemID: item.id,
@@ -589,9 +998,9 @@ export class SyncManager {
       // Debug logging
       ztoolkit.log(`[决策分析] ${attachmentKey}:`);
       ztoolkit.log(`  本地 hash: ${local.hash}`);
-      ztoolkit.log(`  远程 metaMd5: ${remote.metaMd5 || '(无)'}`);
+      ztoolkit.log(`  远程 metaMd5: ${remote.metaMd5 || "(无)"}`);
       ztoolkit.log(`  远程 etag: ${remote.etag}`);
-      ztoolkit.log(`  上次同步 hash: ${lastSyncHash || '(无)'}`);
+      ztoolkit.log(`  上次同步 hash: ${lastSyncHash || "(无)"}`);
       ztoolkit.log(`  远程大小: ${remote.size}`);
 
       // Special case: Local file doesn't exist (empty hash) but item exists
@@ -724,6 +1133,19 @@ export class SyncManager {
         };
       }
 
+      // Both sides hold the same new content, e.g. an upload that reached
+      // the server before its sync was cancelled
+      if (local.hash === remoteHash) {
+        return {
+          type: "no-change",
+          attachmentKey,
+          localHash: local.hash,
+          remoteETag: remoteHash,
+          filePath: local.filePath,
+          remoteModTime: remote.lastModified,
+        };
+      }
+
       // Both changed - conflict!
       return {
         type: "conflict",
@@ -742,9 +1164,7 @@ export class SyncManager {
       // Special case: Item exists but file doesn't (empty hash/path)
       // Without remote file, there's nothing to download and nothing to upload
       if (local.hash === "") {
-        ztoolkit.log(
-          `本地文件不存在且远程也不存在: ${attachmentKey}，跳过`,
-        );
+        ztoolkit.log(`本地文件不存在且远程也不存在: ${attachmentKey}，跳过`);
         return {
           type: "no-change",
           attachmentKey,
@@ -754,9 +1174,7 @@ export class SyncManager {
       // Check if cloud has any sync records
       if (!hasCloudMetadata) {
         // New bucket or first sync - upload local file
-        ztoolkit.log(
-          `云端无同步记录，本地文件需要上传: ${attachmentKey}`,
-        );
+        ztoolkit.log(`云端无同步记录，本地文件需要上传: ${attachmentKey}`);
         return {
           type: "upload",
           attachmentKey,
@@ -777,9 +1195,7 @@ export class SyncManager {
       }
 
       // Was synced before but deleted remotely - delete local
-      ztoolkit.log(
-        `文件曾同步过但已从云端删除: ${attachmentKey}，删除本地`,
-      );
+      ztoolkit.log(`文件曾同步过但已从云端删除: ${attachmentKey}，删除本地`);
       return {
         type: "delete-local",
         attachmentKey,
@@ -794,9 +1210,7 @@ export class SyncManager {
       // Check if cloud has any sync records
       if (!hasCloudMetadata) {
         // New bucket - this shouldn't happen, but download anyway
-        ztoolkit.log(
-          `云端无同步记录但存在远程文件，下载: ${attachmentKey}`,
-        );
+        ztoolkit.log(`云端无同步记录但存在远程文件，下载: ${attachmentKey}`);
         return {
           type: "download",
           attachmentKey,
@@ -817,9 +1231,7 @@ export class SyncManager {
       }
 
       // Was synced before but deleted locally - delete remote
-      ztoolkit.log(
-        `文件曾同步过但已从本地删除: ${attachmentKey}，删除远程`,
-      );
+      ztoolkit.log(`文件曾同步过但已从本地删除: ${attachmentKey}，删除远程`);
       return {
         type: "delete-remote",
         attachmentKey,
@@ -847,17 +1259,12 @@ export class SyncManager {
   /**
    * Execute download operation for a single file
    */
-  private async executeDownload(operation: SyncOperation): Promise<boolean> {
+  private async executeDownload(
+    operation: SyncOperation,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
     try {
       const s3Key = this.getS3Key(operation.attachmentKey);
-      const blob = await this.s3Manager.downloadFile(s3Key);
-
-      if (!blob) {
-        ztoolkit.log(
-          `Failed to download ${operation.attachmentKey}: blob is null`,
-        );
-        return false;
-      }
 
       // Get or create the attachment item
       const item = await this.getOrCreateAttachmentItem(
@@ -890,16 +1297,12 @@ export class SyncManager {
         // Get filename from attachment
         const filename = item.attachmentFilename;
         if (!filename) {
-          ztoolkit.log(
-            `No filename for attachment ${operation.attachmentKey}`,
-          );
+          ztoolkit.log(`No filename for attachment ${operation.attachmentKey}`);
           return false;
         }
 
         filePath = PathUtils.join(attachmentDir, filename);
-        ztoolkit.log(
-          `构建文件路径: ${filePath} (文件名: ${filename})`,
-        );
+        ztoolkit.log(`构建文件路径: ${filePath} (文件名: ${filename})`);
 
         // Ensure directory exists
         try {
@@ -911,8 +1314,9 @@ export class SyncManager {
         }
       }
 
-      // Write blob to file
-      await this.writeBlobToFile(blob, filePath);
+      // Stream the object to disk in ranged chunks, restoring archived
+      // objects first
+      const remote = await this.downloadArchivableFile(s3Key, filePath, signal);
 
       // Update metadata
       const hash = await this.getFileHash(filePath);
@@ -925,20 +1329,80 @@ export class SyncManager {
         localMtime,
         operation.remoteModTime || Date.now(),
         fileSize,
+        remote,
       );
 
       ztoolkit.log(`Successfully downloaded ${operation.attachmentKey}`);
       return true;
     } catch (error) {
       ztoolkit.log(`Error downloading ${operation.attachmentKey}:`, error);
-      return false;
+      throw error;
     }
   }
 
+  /**
+   * Download an object that may be in an archive storage class.
+   * An archived object gets a RestoreObject request that is tracked across
+   * syncs; until the restore completes the download fails with
+   * RestoreInProgress and is retried by the next sync.
+   * Resolves with the downloaded object's metadata.
+   */
+  private async downloadArchivableFile(
+    s3Key: string,
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<S3FileMetadata> {
+    if (this.s3Manager.hasPendingRestore(s3Key)) {
+      const meta = await this.s3Manager.getObjectMetadata(
+        s3Key,
+        undefined,
+        signal,
+      );
+      if (meta.restore === "ongoing") {
+        throw new S3ArchivedObjectError("The archive restore is in progress", {
+          code: "RestoreInProgress",
+          status: 0,
+          key: s3Key,
+        });
+      }
+    }
+
+    let meta: S3FileMetadata;
+    try {
+      meta = await this.downloadToLocalFile(s3Key, filePath, undefined, signal);
+    } catch (error) {
+      if (!(error instanceof S3ArchivedObjectError)) {
+        throw error;
+      }
+
+      ztoolkit.log(`${s3Key} 位于归档存储，请求恢复`);
+      const restore = await this.s3Manager.restoreObject(s3Key, signal);
+      if (restore === "restored") {
+        meta = await this.downloadToLocalFile(
+          s3Key,
+          filePath,
+          undefined,
+          signal,
+        );
+      } else {
+        throw new S3ArchivedObjectError(
+          "The object is archived; a restore has been requested",
+          { code: "RestoreInProgress", status: 0, key: s3Key },
+        );
+      }
+    }
+
+    this.s3Manager.clearPendingRestore(s3Key);
+    return meta;
+  }
+
   /**
    * Execute upload operation for a single file
    */
-  private async executeUpload(operation: SyncOperation): Promise<boolean> {
+  private async executeUpload(
+    operation: SyncOperation,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
     try {
       if (!operation.filePath) {
         ztoolkit.log(`No file path for upload: ${operation.attachmentKey}`);
@@ -946,42 +1410,128 @@ export class SyncManager {
       }
 
       const s3Key = this.getS3Key(operation.attachmentKey);
-      const blob = await this.readFileAsBlob(operation.filePath);
+      // The scan already hashed the file; only hash it again when the
+      // operation was queued without one
+      const hash =
+        operation.localHash || (await this.getFileHash(operation.filePath));
+
+      // Large files go through a resumable multipart upload read from disk.
+      // x-amz-meta-md5 always carries the hash of the original file so the
+      // three-way merge is unaffected by compression or encryption.
+      const remote = await this.uploadAttachmentFile(
+        operation.attachmentKey,
+        operation.filePath,
+        s3Key,
+        hash,
+        signal,
+      );
 
-      if (!blob) {
-        ztoolkit.log(`Failed to read file: ${operation.filePath}`);
-        return false;
-      }
+      // Record the new object so later syncs know its hash without a HEAD.
+      // Without an ETag the next sync reads the object's metadata instead.
+      const localMtime = await this.getFileModTime(operation.filePath);
+      const fileSize = await this.getFileSize(operation.filePath);
 
-      const hash = await this.getFileHash(operation.filePath);
-      const success = await this.s3Manager.uploadFile(
-        blob,
-        s3Key,
-        undefined,
+      this.metadataManager.recordSync(
+        operation.attachmentKey,
         hash,
+        localMtime,
+        Date.now(),
+        fileSize,
+        remote.etag ? remote : undefined,
       );
 
-      if (success) {
-        // Update metadata
-        const localMtime = await this.getFileModTime(operation.filePath);
-        const remoteMtime = await this.s3Manager.getFileModTime(s3Key);
-        const fileSize = await this.getFileSize(operation.filePath);
+      ztoolkit.log(`Successfully uploaded ${operation.attachmentKey}`);
+      return true;
+    } catch (error) {
+      ztoolkit.log(`Error uploading ${operation.attachmentKey}:`, error);
+      throw error;
+    }
+  }
 
-        this.metadataManager.recordSync(
-          operation.attachmentKey,
-          hash,
-          localMtime,
-          remoteMtime,
-          fileSize,
-        );
+  /**
+   * Upload an attachment, compressing and/or encrypting it into temporary
+   * copies first when enabled. Compression is only kept when it actually
+   * shrinks the file. Both transforms are deterministic and the final copy
+   * keeps the source's mtime, so a retried multipart upload sees the same
+   * bytes and resumes. Resolves with the ETag and size of the stored object.
+   */
+  private async uploadAttachmentFile(
+    attachmentKey: string,
+    filePath: string,
+    s3Key: string,
+    hash: string,
+    signal?: AbortSignal,
+  ): Promise<{ etag: string; size: number }> {
+    const item = await this.getOrCreateAttachmentItem(attachmentKey);
+    const contentType: string | undefined =
+      (item && item.attachmentContentType) || undefined;
+    const options: S3UploadOptions = {
+      contentType,
+      contentMd5: hash,
+      storageClass: StorageClassPolicy.fromPrefs().getStorageClass(
+        await this.getFileSize(filePath),
+        await this.getFileModTime(filePath),
+      ),
+      tags:
+        item && isObjectTaggingEnabled() ? buildObjectTags(item) : undefined,
+      signal,
+    };
+    const tempPaths: string[] = [];
+    const getTempPath = (extension: string) => {
+      const path = PathUtils.join(
+        PathUtils.tempDir,
+        `s3sync-${Zotero.Utilities.randomString(12)}.${extension}`,
+      );
+      tempPaths.push(path);
+      return path;
+    };
+    let uploadPath = filePath;
 
-        ztoolkit.log(`Successfully uploaded ${operation.attachmentKey}`);
+    try {
+      const compression = getCompressionFormat(filePath, contentType);
+      if (compression) {
+        const compressedPath = getTempPath(compression);
+        await compressFile(filePath, compressedPath, compression);
+        const originalSize = await this.getFileSize(filePath);
+        const compressedSize = await this.getFileSize(compressedPath);
+        if (compressedSize < originalSize) {
+          ztoolkit.log(
+            `压缩 ${attachmentKey}: ${originalSize} -> ${compressedSize} 字节 (${compression})`,
+          );
+          uploadPath = compressedPath;
+          options.compression = compression;
+        }
       }
 
-      return success;
-    } catch (error) {
-      ztoolkit.log(`Error uploading ${operation.attachmentKey}:`, error);
-      return false;
+      if (this.encryption) {
+        const encryptedPath = getTempPath("enc");
+        await this.encryption.encryptFile(
+          uploadPath,
+          encryptedPath,
+          `${s3Key}\n${options.compression || ""}`,
+        );
+        uploadPath = encryptedPath;
+      }
+
+      if (uploadPath !== filePath) {
+        await IOUtils.setModificationTime(
+          uploadPath,
+          await this.getFileModTime(filePath),
+        );
+      }
+      const etag = await this.s3Manager.uploadFileFromPath(
+        uploadPath,
+        s3Key,
+        options,
+      );
+      return {
+        etag: etag.replace(/"/g, ""),
+        size: await this.getFileSize(uploadPath),
+      };
+    } finally {
+      for (const path of tempPaths) {
+        await IOUtils.remove(path, { ignoreAbsent: true });
+      }
     }
   }
 
@@ -1146,28 +1696,66 @@ export class SyncManager {
   }
 
   /**
-   * Execute delete remote operation
+   * Execute delete remote operations in DeleteObjects batches.
+   * Metadata is only removed for keys the server confirmed as deleted.
+   * Returns the number of deleted files and an error per failed file.
    */
   private async executeDeleteRemote(
-    operation: SyncOperation,
-  ): Promise<boolean> {
-    try {
-      const s3Key = this.getS3Key(operation.attachmentKey);
-      const success = await this.s3Manager.deleteFile(s3Key);
+    operations: SyncOperation[],
+    signal?: AbortSignal,
+  ): Promise<{ deleted: number; errors: unknown[] }> {
+    const keyMap = new Map<string, string>();
+    for (const operation of operations) {
+      keyMap.set(
+        this.getS3Key(operation.attachmentKey),
+        operation.attachmentKey,
+      );
+    }
 
-      if (success) {
-        // Remove metadata
-        this.metadataManager.removeFileMetadata(operation.attachmentKey);
+    let result: S3DeleteResult;
+    try {
+      result = await this.s3Manager.deleteFiles([...keyMap.keys()], signal);
+    } catch (error) {
+      // Cancelled: the records stay until a later sync deletes the objects
+      // again, which succeeds for objects that are already gone
+      if (error instanceof S3AbortError) {
+        return { deleted: 0, errors: [] };
+      }
+      throw error;
+    }
+    for (const s3Key of result.deleted) {
+      const attachmentKey = keyMap.get(s3Key);
+      if (attachmentKey) {
+        this.metadataManager.removeFileMetadata(attachmentKey);
+        this.remoteDeletions.add(attachmentKey);
         ztoolkit.log(`Deleted remote file: ${s3Key}`);
       }
+    }
+    result.errors.forEach((error, s3Key) => {
+      ztoolkit.log(`Error deleting remote file ${s3Key}:`, error);
+    });
 
-      return success;
-    } catch (error) {
-      ztoolkit.log(
-        `Error deleting remote file ${operation.attachmentKey}:`,
-        error,
-      );
-      return false;
+    return {
+      deleted: result.deleted.length,
+      errors: [...result.errors.values()],
+    };
+  }
+
+  /**
+   * Whether a sync is running
+   */
+  public isSyncRunning(): boolean {
+    return this.isSyncing;
+  }
+
+  /**
+   * Cancel the running sync. Transfers in flight are aborted; finished
+   * operations keep their records, which are still written to the cloud.
+   */
+  public cancelSync(): void {
+    if (this.abortController && !this.abortController.signal.aborted) {
+      ztoolkit.log("正在取消同步");
+      this.abortController.abort();
     }
   }
 
@@ -1181,7 +1769,7 @@ export class SyncManager {
     }
 
     // Reload S3 configuration in case it was changed
-    this.s3Manager.reloadConfig();
+    await this.s3Manager.reloadConfig();
 
     if (!this.s3Manager.isConfigured()) {
       ztoolkit.log("S3 not configured, cannot sync");
@@ -1195,6 +1783,10 @@ export class SyncManager {
     }
 
     this.isSyncing = true;
+    this.remoteDeletions.clear();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const signal = abortController.signal;
 
     const isIncremental = this.shouldUseIncrementalSync();
     const syncType = isIncremental ? "增量同步" : "完整同步";
@@ -1217,7 +1809,15 @@ export class SyncManager {
         progress: 3,
       });
 
-      await this.downloadCloudMetadata();
+      // Probed on the first sync with this endpoint and bucket, then cached
+      await this.s3Manager.ensureCapabilities(
+        (getPref("s3.prefix") as string) || "zotero-attachments",
+        signal,
+      );
+
+      // Verify the passphrase before anything is downloaded
+      await this.prepareEncryption(signal);
+      await this.downloadCloudMetadata(signal);
 
       // Analyze local and remote files
       progressWindow.changeLine({
@@ -1228,6 +1828,7 @@ export class SyncManager {
 
       const operations = await this.compareFilesAndDetermineSyncOperations(
         isIncremental,
+        signal,
       );
 
       const totalOperations =
@@ -1283,7 +1884,10 @@ export class SyncManager {
           progress: 10,
         });
 
-        const strategy = await this.showFirstSyncDialog(localCount, remoteCount);
+        const strategy = await this.showFirstSyncDialog(
+          localCount,
+          remoteCount,
+        );
 
         ztoolkit.log("策略对话框返回结果:", strategy);
 
@@ -1366,16 +1970,14 @@ export class SyncManager {
       // Execute operations
       let completed = 0;
       let failed = 0;
+      const errors: unknown[] = [];
       const totalToSync =
         operations.upload.length +
         operations.download.length +
         operations.deleteLocal.length +
         operations.deleteRemote.length;
 
-      // Get concurrency setting from preferences
-      const concurrency =
-        (getPref("sync.concurrency") as number) ||
-        SyncManager.DEFAULT_CONCURRENCY;
+      const concurrency = this.getConcurrency();
 
       ztoolkit.log(`使用并发数: ${concurrency}`);
 
@@ -1389,7 +1991,7 @@ export class SyncManager {
 
         const uploadResults = await this.executeConcurrently(
           operations.upload,
-          (op) => this.executeUpload(op),
+          (op) => this.executeUpload(op, signal),
           (current, total, op) => {
             progressWindow.changeLine({
               text: `上传: ${op.attachmentKey} (${current}/${total})`,
@@ -1398,14 +2000,16 @@ export class SyncManager {
             });
           },
           concurrency,
+          signal,
         );
 
         completed += uploadResults.completed;
         failed += uploadResults.failed;
+        errors.push(...uploadResults.errors);
       }
 
       // Execute downloads concurrently
-      if (operations.download.length > 0) {
+      if (operations.download.length > 0 && !signal.aborted) {
         progressWindow.changeLine({
           text: `正在下载 ${operations.download.length} 个文件...`,
           type: "default",
@@ -1414,7 +2018,7 @@ export class SyncManager {
 
         const downloadResults = await this.executeConcurrently(
           operations.download,
-          (op) => this.executeDownload(op),
+          (op) => this.executeDownload(op, signal),
           (current, total, op) => {
             progressWindow.changeLine({
               text: `下载: ${op.attachmentKey} (${current}/${total})`,
@@ -1423,14 +2027,19 @@ export class SyncManager {
             });
           },
           concurrency,
+          signal,
         );
 
         completed += downloadResults.completed;
         failed += downloadResults.failed;
+        errors.push(...downloadResults.errors);
       }
 
       // Execute local deletes (usually fast, keep serial)
       for (const op of operations.deleteLocal) {
+        if (signal.aborted) {
+          break;
+        }
         progressWindow.changeLine({
           text: `删除本地: ${op.attachmentKey} (${completed + 1}/${totalToSync})`,
           type: "default",
@@ -1445,20 +2054,21 @@ export class SyncManager {
         }
       }
 
-      // Execute remote deletes (usually fast, keep serial)
-      for (const op of operations.deleteRemote) {
+      // Execute remote deletes in batches of up to 1,000 keys
+      if (operations.deleteRemote.length > 0 && !signal.aborted) {
         progressWindow.changeLine({
-          text: `删除远程: ${op.attachmentKey} (${completed + 1}/${totalToSync})`,
+          text: `删除远程: ${operations.deleteRemote.length} 个文件`,
           type: "default",
           progress: 70 + (completed / totalToSync) * 15,
         });
 
-        const success = await this.executeDeleteRemote(op);
-        if (success) {
-          completed++;
-        } else {
-          failed++;
-        }
+        const deleteResult = await this.executeDeleteRemote(
+          operations.deleteRemote,
+          signal,
+        );
+        completed += deleteResult.deleted;
+        failed += deleteResult.errors.length;
+        errors.push(...deleteResult.errors);
       }
 
       // Update metadata for no-change files (to avoid re-checking next time)
@@ -1468,7 +2078,7 @@ export class SyncManager {
           const metadata = this.metadataManager.getFileMetadata(
             op.attachmentKey,
           );
-          if (!metadata || !metadata.lastSyncHash) {
+          if (!metadata || metadata.lastSyncHash !== op.localHash) {
             // First time detecting this file is synced, record it
             // Get file information
             let localMtime = 0;
@@ -1484,45 +2094,87 @@ export class SyncManager {
               localMtime,
               op.remoteModTime || Date.now(),
               fileSize,
+              op.remoteObject,
             );
+          } else if (
+            op.remoteObject &&
+            (metadata.remoteEtag !== op.remoteObject.etag ||
+              metadata.remoteSize !== op.remoteObject.size)
+          ) {
+            // Records from older versions lack the object's ETag
+            this.metadataManager.updateFileMetadata(op.attachmentKey, {
+              remoteEtag: op.remoteObject.etag,
+              remoteSize: op.remoteObject.size,
+            });
           }
         }
       }
 
-      // Update last full sync time
-      if (!isIncremental) {
+      // A cancelled sync did not check every file, so the next one must
+      if (!isIncremental && !signal.aborted) {
         this.metadataManager.updateLastFullSync();
       }
 
-      // Upload metadata to cloud
+      // Upload metadata to cloud even after a cancel: the local records only
+      // cover finished operations, and the cloud copy must match them
+      // (bounded by the request timeouts rather than the cancelled signal)
       progressWindow.changeLine({
         text: "正在上传同步记录到云端...",
         type: "default",
         progress: 95,
       });
 
-      await this.uploadCloudMetadata();
+      let metadataUploaded = true;
+      try {
+        await this.uploadCloudMetadata();
+      } catch (error) {
+        metadataUploaded = false;
+        errors.push(error);
+      }
 
       // Clear sync status
       addon.data.syncStatus = { isSyncing: false };
       this.updateToolbarTooltip("S3 云同步");
 
+      let summary = signal.aborted
+        ? `同步已取消: ${completed} 成功, ${failed} 失败`
+        : `同步完成: ${completed} 成功, ${failed} 失败`;
+      if (!metadataUploaded) {
+        summary += ", 同步记录上传失败";
+      }
+      if (errors.length > 0) {
+        summary += ` (${summarizeErrors(errors)})`;
+        ztoolkit.log(`同步错误: ${errors.map(describeError).join("; ")}`);
+      }
+
       progressWindow.changeLine({
-        text: `同步完成: ${completed} 成功, ${failed} 失败`,
-        type: failed > 0 ? "default" : "success",
+        text: summary,
+        type: errors.length > 0 ? "default" : "success",
         progress: 100,
       });
       progressWindow.startCloseTimer(5000);
     } catch (error) {
+      if (error instanceof S3AbortError) {
+        // Cancelled before any file was transferred
+        ztoolkit.log("同步已取消");
+        progressWindow.changeLine({
+          text: "同步已取消",
+          type: "default",
+          progress: 0,
+        });
+        progressWindow.startCloseTimer(3000);
+        return;
+      }
       ztoolkit.log("Sync error:", error);
       progressWindow.changeLine({
-        text: `同步失败: ${error}`,
+        text: `同步失败: ${describeError(error)}`,
         type: "error",
         progress: 0,
       });
-      progressWindow.startCloseTimer(5000);
+      progressWindow.startCloseTimer(10000);
     } finally {
       this.isSyncing = false;
+      this.abortController = null;
     }
   }
 
@@ -1572,9 +2224,10 @@ export class SyncManager {
       hash.init(hash.MD5);
       hash.updateFromStream(stream, stream.available());
 
-      const hashBytes = hash.finish(false);
-      const hashString = Array.from(hashBytes, (byte: number) =>
-        ("0" + (byte & 0xff).toString(16)).slice(-2),
+      // finish(false) returns the raw digest as a binary string
+      const hashBytes: string = hash.finish(false);
+      const hashString = Array.from(hashBytes, (char) =>
+        ("0" + char.charCodeAt(0).toString(16)).slice(-2),
       ).join("");
 
       stream.close();
@@ -1603,34 +2256,186 @@ export class SyncManager {
     }
   }
 
-  private async readFileAsBlob(filePath: string): Promise<Blob | null> {
+  /**
+   * Create a presigned download link for an attachment's S3 object.
+   * Client-side encrypted objects would download as ciphertext, so sharing
+   * is refused while encryption is on; compressed objects are decoded by
+   * the browser through Content-Encoding.
+   */
+  public async createShareLink(
+    attachmentKey: string,
+    filename: string,
+    contentType?: string,
+  ): Promise<string> {
+    await this.s3Manager.reloadConfig();
+    const s3Key = this.getS3Key(attachmentKey);
+
+    if (getPref("sync.clientEncryption") as boolean) {
+      throw new ClientEncryptionError(
+        "Client-side encrypted attachments cannot be shared with a link",
+        { code: "UnsupportedEncryption", status: 0, key: s3Key },
+      );
+    }
+
+    // Fails with NotFound when the attachment has not been uploaded yet
+    const meta = await this.s3Manager.getObjectMetadata(s3Key);
+    const expiryHours = (getPref("s3.shareLinkExpiry") as number) || 24;
+    return this.s3Manager.getPresignedUrl(s3Key, {
+      expiresIn: expiryHours * 3600,
+      filename,
+      contentType,
+      contentEncoding: meta.compression,
+    });
+  }
+
+  /**
+   * Whether the bucket keeps earlier versions, or null until the provider
+   * has been probed
+   */
+  public isBucketVersioned(): boolean | null {
+    return this.s3Manager.getCapabilities()?.versioning ?? null;
+  }
+
+  /**
+   * List the stored versions of an attachment, newest first.
+   * Hashes come from x-amz-meta-md5 so they match the local file even when
+   * the object is compressed or encrypted.
+   */
+  public async listAttachmentVersions(
+    attachmentKey: string,
+  ): Promise<AttachmentVersion[]> {
+    await this.s3Manager.reloadConfig();
+    const s3Key = this.getS3Key(attachmentKey);
+    const versions: AttachmentVersion[] = (
+      await this.s3Manager.listObjectVersions(s3Key)
+    ).map((version) => ({
+      ...version,
+      hash: version.isDeleteMarker ? "" : version.etag,
+    }));
+
+    // One HEAD per version, at most sync.concurrency at a time
+    await this.executeConcurrently(
+      versions.filter((version) => !version.isDeleteMarker),
+      async (version) => {
+        try {
+          const meta = await this.s3Manager.getObjectMetadata(
+            s3Key,
+            version.versionId,
+          );
+          version.hash = meta.metaMd5 || version.etag;
+        } catch (error) {
+          ztoolkit.log(`读取版本元数据失败 ${version.versionId}:`, error);
+        }
+        return true;
+      },
+      () => undefined,
+      this.getConcurrency(),
+    );
+    return versions;
+  }
+
+  /**
+   * Replace the local file with an earlier version.
+   * The next sync sees the local change and uploads it as the newest
+   * version, so the restore reaches other devices too.
+   */
+  public async restoreAttachmentVersion(
+    attachmentKey: string,
+    versionId: string,
+  ): Promise<void> {
+    if (this.isSyncing) {
+      throw new Error("同步进行中，请在同步完成后再恢复版本");
+    }
+
+    const item = await this.getOrCreateAttachmentItem(attachmentKey);
+    const filePath = item && (await item.getFilePathAsync());
+    if (!filePath) {
+      throw new Error(`附件 ${attachmentKey} 没有本地文件`);
+    }
+
+    await this.s3Manager.reloadConfig();
+    await this.prepareEncryption();
+    await this.downloadToLocalFile(
+      this.getS3Key(attachmentKey),
+      filePath,
+      versionId,
+    );
+    ztoolkit.log(`已恢复 ${attachmentKey} 的版本 ${versionId}`);
+  }
+
+  /**
+   * Download an earlier version and import it as a new attachment next to
+   * the original, leaving the current file untouched
+   */
+  public async saveAttachmentVersionAsCopy(
+    attachmentKey: string,
+    version: S3ObjectVersion,
+  ): Promise<Zotero.Item> {
+    const item = await this.getOrCreateAttachmentItem(attachmentKey);
+    if (!item) {
+      throw new Error(`附件 ${attachmentKey} 不存在`);
+    }
+
+    const date = new Date(version.lastModified).toISOString().slice(0, 10);
+    const filename: string = item.attachmentFilename || attachmentKey;
+    const copyName = filename.replace(/(\.[^.]*)?$/, ` (${date})$1`);
+    const tempDir = PathUtils.join(
+      PathUtils.tempDir,
+      `s3sync-${Zotero.Utilities.randomString(12)}`,
+    );
+    const tempPath = PathUtils.join(tempDir, copyName);
+
     try {
-      const file = Zotero.File.pathToFile(filePath);
-      // @ts-expect-error - Zotero XPCOM types
-      const stream = Components.classes[
-        "@mozilla.org/network/file-input-stream;1"
-      ].createInstance(Components.interfaces.nsIFileInputStream);
-      stream.init(file, -1, 0, 0);
+      await IOUtils.makeDirectory(tempDir);
+      await this.s3Manager.reloadConfig();
+      await this.prepareEncryption();
+      await this.downloadToLocalFile(
+        this.getS3Key(attachmentKey),
+        tempPath,
+        version.versionId,
+      );
 
-      // @ts-expect-error - Zotero XPCOM types
-      const binaryStream = Components.classes[
-        "@mozilla.org/binaryinputstream;1"
-      ].createInstance(Components.interfaces.nsIBinaryInputStream);
-      binaryStream.setInputStream(stream);
+      return await Zotero.Attachments.importFromFile({
+        file: tempPath,
+        libraryID: item.libraryID,
+        parentItemID: item.parentItemID || undefined,
+        collections: item.parentItemID ? undefined : item.getCollections(),
+        title: `${item.getField("title")} (${date})`,
+        contentType: item.attachmentContentType || undefined,
+      });
+    } finally {
+      await IOUtils.remove(tempDir, { recursive: true, ignoreAbsent: true });
+    }
+  }
 
-      const bytes = binaryStream.readBytes(binaryStream.available());
-      binaryStream.close();
-      stream.close();
+  /**
+   * Rewrite the S3 object tags of an uploaded attachment after its item or
+   * collections changed. Attachments that were never uploaded are skipped.
+   */
+  public async updateObjectTags(attachmentKey: string): Promise<void> {
+    if (
+      !isObjectTaggingEnabled() ||
+      !this.metadataManager.getFileMetadata(attachmentKey)
+    ) {
+      return;
+    }
 
-      const uint8Array = new Uint8Array(bytes.length);
-      for (let i = 0; i < bytes.length; i++) {
-        uint8Array[i] = bytes.charCodeAt(i) & 0xff;
-      }
+    // Attachments of group libraries are synced too
+    const item = await this.getOrCreateAttachmentItem(attachmentKey);
+    if (!item) {
+      return;
+    }
 
-      return new Blob([uint8Array]);
+    try {
+      await this.s3Manager.putObjectTags(
+        this.getS3Key(attachmentKey),
+        buildObjectTags(item),
+      );
     } catch (error) {
-      ztoolkit.log(`Error reading file ${filePath}:`, error);
-      return null;
+      // Deleted remotely since the last sync; the next sync sorts it out
+      if (!(error instanceof S3NotFoundError)) {
+        throw error;
+      }
     }
   }
 
@@ -1638,16 +2443,8 @@ export class SyncManager {
     const s3Key = this.getS3Key(attachmentKey);
 
     try {
-      const blob = await this.s3Manager.downloadFile(s3Key);
-      if (!blob) {
-        return false;
-      }
-
       // Get the Zotero item
-      const item = Zotero.Items.getByLibraryAndKey(
-        Zotero.Libraries.userLibraryID,
-        attachmentKey,
-      );
+      const item = await this.getOrCreateAttachmentItem(attachmentKey);
       if (!item) {
         return false;
       }
@@ -1657,8 +2454,8 @@ export class SyncManager {
         return false;
       }
 
-      // Write blob to file
-      await this.writeBlobToFile(blob, filePath);
+      await this.prepareEncryption();
+      await this.downloadArchivableFile(s3Key, filePath);
       return true;
     } catch (error) {
       ztoolkit.log(`Error downloading attachment ${attachmentKey}:`, error);
@@ -1666,32 +2463,12 @@ export class SyncManager {
     }
   }
 
-  private async writeBlobToFile(blob: Blob, filePath: string): Promise<void> {
-    const file = Zotero.File.pathToFile(filePath);
-    const arrayBuffer = await blob.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-
-    // @ts-expect-error - Zotero XPCOM types
-    const stream = Components.classes[
-      "@mozilla.org/network/file-output-stream;1"
-    ].createInstance(Components.interfaces.nsIFileOutputStream);
-    stream.init(file, 0x02 | 0x08 | 0x20, 0o666, 0);
-
-    // @ts-expect-error - Zotero XPCOM types
-    const binaryStream = Components.classes[
-      "@mozilla.org/binaryoutputstream;1"
-    ].createInstance(Components.interfaces.nsIBinaryOutputStream);
-    binaryStream.setOutputStream(stream);
-
-    binaryStream.writeByteArray(Array.from(uint8Array), uint8Array.length);
-    binaryStream.close();
-    stream.close();
-  }
-
   private async showConflictDialog(
     conflictCount: number,
   ): Promise<"upload" | "download" | "cancel"> {
-    ztoolkit.log(`显示冲突解决对话框（使用原生对话框），冲突数量：${conflictCount}`);
+    ztoolkit.log(
+      `显示冲突解决对话框（使用原生对话框），冲突数量：${conflictCount}`,
+    );
 
     const title = "同步冲突";
     const text = `发现 ${conflictCount} 个文件在云端和本地都有修改。
@@ -1699,7 +2476,7 @@ export class SyncManager {
 请选择如何处理：`;
 
     const Services = Components.utils.import(
-      "resource://gre/modules/Services.jsm"
+      "resource://gre/modules/Services.jsm",
     ).Services;
 
     const buttonFlags =
@@ -1717,7 +2494,7 @@ export class SyncManager {
       "使用云端覆盖本地",
       "取消同步",
       null,
-      {}
+      {},
     );
 
     ztoolkit.log("用户选择结果:", result);
@@ -10,6 +10,8 @@ export interface FileMetadata {
   lastSyncTime: number; // Last sync timestamp (ms)
   lastSyncHash: string; // Hash at last sync
   size: number; // File size in bytes
+  remoteEtag?: string; // ETag of the object holding this hash
+  remoteSize?: number; // Stored object size, after compression or encryption
 }
 
 export interface SyncMetadataStore {
@@ -110,7 +112,9 @@ export class SyncMetadataManager {
   }
 
   /**
-   * Record successful sync for a file
+   * Record successful sync for a file.
+   * With the remote object's ETag and size, later syncs can take its content
+   * hash from these records instead of a HEAD request.
    */
   public recordSync(
     attachmentKey: string,
@@ -118,6 +122,7 @@ export class SyncMetadataManager {
     localMtime: number,
     remoteMtime: number,
     size: number,
+    remote?: { etag: string; size: number },
   ): void {
     const now = Date.now();
 
@@ -128,6 +133,8 @@ export class SyncMetadataManager {
       lastSyncTime: now,
       lastSyncHash: hash,
       size,
+      remoteEtag: remote?.etag,
+      remoteSize: remote?.size,
     };
 
     this.saveMetadata();
@@ -252,7 +259,9 @@ export class SyncMetadataManager {
 
   /**
    * Merge cloud metadata with local metadata
-   * Cloud metadata takes precedence for file records
+   * Cloud metadata takes precedence for file records, unless the local
+   * record was synced more recently (e.g. earlier in a sync whose upload
+   * of the records lost a race with another device)
    * But preserves local-only records that don't exist in cloud
    */
   public mergeWithCloudMetadata(cloudMetadata: SyncMetadataStore): void {
@@ -270,7 +279,10 @@ export class SyncMetadataManager {
     // Keep local-only records that don't exist in cloud
     // But only if they're newer than the cloud's last full sync
     for (const [key, localMeta] of Object.entries(this.metadata.files)) {
-      if (!cloudMetadata.files[key]) {
+      const cloudMeta = cloudMetadata.files[key];
+      if (cloudMeta && localMeta.lastSyncTime > cloudMeta.lastSyncTime) {
+        mergedFiles[key] = localMeta;
+      } else if (!cloudMeta) {
         // This file only exists locally
         // If it was synced after the cloud's last full sync, keep it
         if (
@@ -0,0 +1,215 @@
+/**
+ * Transfer State Manager
+ * Persists in-flight transfer state so interrupted transfers can resume
+ */
+
+export interface MultipartPartRecord {
+  partNumber: number;
+  etag: string;
+}
+
+export interface MultipartUploadRecord {
+  uploadId: string;
+  fingerprint: string; // Identifies the source file version (size, mtime, hash)
+  partSize: number; // Part size in bytes used when the upload was created
+  parts: MultipartPartRecord[];
+  startedAt: number; // Upload creation time (ms)
+  updatedAt: number; // Last part completion time (ms)
+}
+
+export interface RangedDownloadRecord {
+  etag: string; // Object ETag the partial file belongs to
+  size: number; // Total object size in bytes
+  tempPath: string; // Partial file being filled
+  startedAt: number; // Download start time (ms)
+}
+
+export interface PendingRestoreRecord {
+  requestedAt: number; // RestoreObject request time (ms)
+  days: number; // How long the restored copy stays available
+}
+
+export interface TransferStateStore {
+  uploads: {
+    [s3Key: string]: MultipartUploadRecord;
+  };
+  downloads: {
+    [s3Key: string]: RangedDownloadRecord;
+  };
+  restores: {
+    [s3Key: string]: PendingRestoreRecord;
+  };
+  version: number;
+}
+
+export class TransferStateManager {
+  private static readonly STATE_KEY = "sync.transferState";
+  private static readonly STATE_VERSION = 1;
+  private state: TransferStateStore;
+
+  constructor() {
+    this.state = this.loadState();
+  }
+
+  /**
+   * Load transfer state from Zotero preferences
+   */
+  private loadState(): TransferStateStore {
+    try {
+      const stored = Zotero.Prefs.get(
+        `extensions.zotero.s3sync.${TransferStateManager.STATE_KEY}`,
+        true,
+      ) as string;
+
+      if (stored) {
+        const parsed = JSON.parse(stored) as TransferStateStore;
+
+        if (parsed.version === TransferStateManager.STATE_VERSION) {
+          parsed.uploads = parsed.uploads || {};
+          parsed.downloads = parsed.downloads || {};
+          parsed.restores = parsed.restores || {};
+          return parsed;
+        }
+
+        ztoolkit.log("Transfer state version mismatch, discarding");
+      }
+    } catch (error) {
+      ztoolkit.log("Error loading transfer state:", error);
+    }
+
+    return {
+      uploads: {},
+      downloads: {},
+      restores: {},
+      version: TransferStateManager.STATE_VERSION,
+    };
+  }
+
+  /**
+   * Save transfer state to Zotero preferences
+   */
+  private saveState(): void {
+    try {
+      Zotero.Prefs.set(
+        `extensions.zotero.s3sync.${TransferStateManager.STATE_KEY}`,
+        JSON.stringify(this.state),
+        true,
+      );
+    } catch (error) {
+      ztoolkit.log("Error saving transfer state:", error);
+    }
+  }
+
+  /**
+   * Get the pending multipart upload for an S3 key
+   */
+  public getUpload(s3Key: string): MultipartUploadRecord | null {
+    return this.state.uploads[s3Key] || null;
+  }
+
+  /**
+   * Start tracking a new multipart upload
+   */
+  public startUpload(
+    s3Key: string,
+    uploadId: string,
+    fingerprint: string,
+    partSize: number,
+  ): MultipartUploadRecord {
+    const now = Date.now();
+    const record: MultipartUploadRecord = {
+      uploadId,
+      fingerprint,
+      partSize,
+      parts: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    this.state.uploads[s3Key] = record;
+    this.saveState();
+    return record;
+  }
+
+  /**
+   * Record a finished part so it is skipped when the upload resumes
+   */
+  public recordPart(s3Key: string, partNumber: number, etag: string): void {
+    const record = this.state.uploads[s3Key];
+    if (!record) {
+      return;
+    }
+
+    record.parts = record.parts.filter((p) => p.partNumber !== partNumber);
+    record.parts.push({ partNumber, etag });
+    record.updatedAt = Date.now();
+    this.saveState();
+  }
+
+  /**
+   * Stop tracking a multipart upload (completed or aborted)
+   */
+  public removeUpload(s3Key: string): void {
+    delete this.state.uploads[s3Key];
+    this.saveState();
+  }
+
+  /**
+   * Get the partial ranged download for an S3 key
+   */
+  public getDownload(s3Key: string): RangedDownloadRecord | null {
+    return this.state.downloads[s3Key] || null;
+  }
+
+  /**
+   * Start tracking a ranged download into a partial file
+   */
+  public startDownload(
+    s3Key: string,
+    etag: string,
+    size: number,
+    tempPath: string,
+  ): void {
+    this.state.downloads[s3Key] = {
+      etag,
+      size,
+      tempPath,
+      startedAt: Date.now(),
+    };
+    this.saveState();
+  }
+
+  /**
+   * Stop tracking a ranged download (completed or discarded)
+   */
+  public removeDownload(s3Key: string): void {
+    delete this.state.downloads[s3Key];
+    this.saveState();
+  }
+
+  /**
+   * Get the pending archive restore for an S3 key
+   */
+  public getRestore(s3Key: string): PendingRestoreRecord | null {
+    return this.state.restores[s3Key] || null;
+  }
+
+  /**
+   * Track a requested archive restore until the object has been downloaded
+   */
+  public startRestore(s3Key: string, days: number): void {
+    this.state.restores[s3Key] = { requestedAt: Date.now(), days };
+    this.saveState();
+  }
+
+  /**
+   * Stop tracking an archive restore (object downloaded)
+   */
+  public removeRestore(s3Key: string): void {
+    if (!this.state.restores[s3Key]) {
+      return;
+    }
+    delete this.state.restores[s3Key];
+    this.saveState();
+  }
+}
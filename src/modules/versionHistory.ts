@@ -0,0 +1,229 @@
+/**
+ * Version History
+ * Item pane section listing the S3 versions of an attachment, with actions
+ * to save an earlier version as a copy or restore it over the current file
+ */
+
+import { getLocaleID, getString } from "../utils/locale";
+import { describeError } from "./s3Errors";
+import type { AttachmentVersion } from "./syncManager";
+
+export function registerVersionHistorySection(): void {
+  const icon = `chrome://${addon.data.config.addonRef}/content/icons/favicon@0.5x.png`;
+
+  Zotero.ItemPaneManager.registerSection({
+    paneID: "s3-versions",
+    pluginID: addon.data.config.addonID,
+    header: {
+      l10nID: getLocaleID("item-section-s3-versions-head-text"),
+      icon,
+    },
+    sidenav: {
+      l10nID: getLocaleID("item-section-s3-versions-sidenav-tooltip"),
+      icon,
+    },
+    onItemChange: ({ item, setEnabled }: { item: any; setEnabled: any }) => {
+      setEnabled(!!item?.isFileAttachment());
+      return true;
+    },
+    // Versions are only listed on request, as every listing costs a
+    // ListObjectVersions request and a HEAD per version
+    onRender: ({ body, item }: { body: HTMLElement; item: any }) => {
+      body.dataset.itemKey = item?.key ?? "";
+      const doc = body.ownerDocument;
+      if (!doc) {
+        return;
+      }
+      body.replaceChildren(
+        createButton(doc, getString("versions-show"), async () => {
+          body.textContent = getString("versions-loading");
+          await renderVersions(body, item);
+        }),
+      );
+    },
+  });
+}
+
+async function renderVersions(body: HTMLElement, item: any): Promise<void> {
+  const syncManager = addon.data.syncManager;
+  if (!syncManager || !item?.isFileAttachment()) {
+    return;
+  }
+
+  let versions: AttachmentVersion[];
+  try {
+    versions = await syncManager.listAttachmentVersions(item.key);
+  } catch (error) {
+    ztoolkit.log(`Error listing versions of ${item.key}:`, error);
+    if (!isShowing(body, item)) {
+      return;
+    }
+    body.textContent = getString("versions-error", {
+      args: { error: describeError(error) },
+    });
+    return;
+  }
+
+  const doc = body.ownerDocument;
+  if (!doc || !isShowing(body, item)) {
+    return;
+  }
+
+  body.textContent = "";
+  if (versions.length === 0) {
+    body.textContent = getString("versions-empty");
+    return;
+  }
+
+  const list = doc.createElement("div");
+  list.style.display = "flex";
+  list.style.flexDirection = "column";
+  list.style.gap = "6px";
+
+  for (const version of versions) {
+    const row = doc.createElement("div");
+    row.style.display = "flex";
+    row.style.alignItems = "center";
+    row.style.gap = "6px";
+
+    const label = doc.createElement("span");
+    label.style.flex = "1";
+    label.textContent = describeVersion(version);
+    label.title = `versionId: ${version.versionId}\nMD5: ${version.hash}`;
+    row.append(label);
+
+    if (!version.isDeleteMarker) {
+      row.append(
+        createButton(doc, getString("versions-save-copy"), () =>
+          saveCopy(item, version),
+        ),
+      );
+      if (!version.isLatest) {
+        row.append(
+          createButton(doc, getString("versions-restore"), () =>
+            restore(body, item, version),
+          ),
+        );
+      }
+    }
+    list.append(row);
+  }
+  body.append(list);
+
+  // Without versioning the bucket only keeps the current object
+  if (syncManager.isBucketVersioned() === false) {
+    const note = doc.createElement("div");
+    note.style.marginTop = "6px";
+    note.style.opacity = "0.7";
+    note.textContent = getString("versions-unversioned");
+    body.append(note);
+  }
+}
+
+/**
+ * Whether the section still shows the item, which may have changed while
+ * its versions were loading
+ */
+function isShowing(body: HTMLElement, item: any): boolean {
+  return body.dataset.itemKey === item.key;
+}
+
+function describeVersion(version: AttachmentVersion): string {
+  const date = new Date(version.lastModified).toLocaleString();
+  const parts = [date];
+  if (version.isDeleteMarker) {
+    parts.push(getString("versions-deleted"));
+  } else {
+    parts.push(formatSize(version.size), version.hash.slice(0, 8));
+  }
+  if (version.isLatest) {
+    parts.push(getString("versions-latest"));
+  }
+  return parts.join(" · ");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function createButton(
+  doc: Document,
+  label: string,
+  onClick: () => Promise<void>,
+): HTMLButtonElement {
+  const button = doc.createElement("button");
+  button.textContent = label;
+  button.addEventListener("click", async () => {
+    button.disabled = true;
+    try {
+      await onClick();
+    } finally {
+      button.disabled = false;
+    }
+  });
+  return button;
+}
+
+async function saveCopy(item: any, version: AttachmentVersion): Promise<void> {
+  try {
+    await addon.data.syncManager!.saveAttachmentVersionAsCopy(
+      item.key,
+      version,
+    );
+    showResult(getString("versions-save-done"), "success");
+  } catch (error) {
+    ztoolkit.log(`Error saving version ${version.versionId}:`, error);
+    showResult(
+      getString("versions-error", { args: { error: describeError(error) } }),
+      "error",
+    );
+  }
+}
+
+async function restore(
+  body: HTMLElement,
+  item: any,
+  version: AttachmentVersion,
+): Promise<void> {
+  const confirmed = Services.prompt.confirm(
+    // Gecko accepts a null parent, which its typings do not allow for
+    (body.ownerDocument?.defaultView ?? null) as mozIDOMWindowProxy,
+    getString("versions-restore"),
+    getString("versions-restore-confirm", {
+      args: { date: new Date(version.lastModified).toLocaleString() },
+    }),
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  try {
+    await addon.data.syncManager!.restoreAttachmentVersion(
+      item.key,
+      version.versionId,
+    );
+    showResult(getString("versions-restore-done"), "success");
+  } catch (error) {
+    ztoolkit.log(`Error restoring version ${version.versionId}:`, error);
+    showResult(
+      getString("versions-error", { args: { error: describeError(error) } }),
+      "error",
+    );
+  }
+}
+
+function showResult(text: string, type: "success" | "error"): void {
+  const progressWindow = new ztoolkit.ProgressWindow(
+    getString("versions-title"),
+    { closeOnClick: true },
+  )
+    .createLine({ text, type })
+    .show();
+  progressWindow.startCloseTimer(type === "success" ? 3000 : 10000);
+}
@@ -0,0 +1,42 @@
+export { md5Base64, sha256File };
+
+/**
+ * Base64-encoded MD5 digest of raw bytes, as used by Content-MD5 and the
+ * SSE-C key MD5 header.
+ * @param bytes
+ */
+function md5Base64(bytes: Uint8Array): string {
+  // @ts-expect-error - Zotero XPCOM types
+  const hash = Components.classes[
+    "@mozilla.org/security/hash;1"
+  ].createInstance(Components.interfaces.nsICryptoHash);
+  hash.init(hash.MD5);
+  hash.update(Array.from(bytes), bytes.length);
+  return hash.finish(true);
+}
+
+/**
+ * Raw SHA-256 digest of a file, read as a stream so it need not fit in
+ * memory
+ * @param path
+ */
+function sha256File(path: string): Uint8Array {
+  // @ts-expect-error - Zotero XPCOM types
+  const stream = Components.classes[
+    "@mozilla.org/network/file-input-stream;1"
+  ].createInstance(Components.interfaces.nsIFileInputStream);
+  stream.init(Zotero.File.pathToFile(path), -1, 0, 0);
+  try {
+    // @ts-expect-error - Zotero XPCOM types
+    const hash = Components.classes[
+      "@mozilla.org/security/hash;1"
+    ].createInstance(Components.interfaces.nsICryptoHash);
+    hash.init(hash.SHA256);
+    hash.updateFromStream(stream, -1);
+    // finish(false) returns the raw digest as a binary string
+    const digest: string = hash.finish(false);
+    return Uint8Array.from(digest, (char) => char.charCodeAt(0));
+  } finally {
+    stream.close();
+  }
+}
@@ -0,0 +1,97 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import {
+  listAwsProfiles,
+  loadAwsProfile,
+  parseIni,
+} from "../src/modules/awsProfile";
+
+const CREDENTIALS = `[default]
+aws_access_key_id = AKIADEFAULT
+aws_secret_access_key = default-secret
+
+[work]
+aws_access_key_id = ASIAWORK
+aws_secret_access_key = work-secret
+aws_session_token = work-token
+`;
+
+const CONFIG = `[default]
+region = us-east-1
+
+[profile work]
+region = eu-central-1
+s3 =
+  endpoint_url = https://minio.example.com
+
+[profile config-only]
+region = ap-south-1
+`;
+
+describe("awsProfile", function () {
+  let credentialsPath: string;
+  let configPath: string;
+
+  before(async function () {
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, { ztoolkit: plugin.data.ztoolkit });
+
+    credentialsPath = PathUtils.join(
+      PathUtils.tempDir,
+      "s3sync-aws-credentials",
+    );
+    configPath = PathUtils.join(PathUtils.tempDir, "s3sync-aws-config");
+    await IOUtils.writeUTF8(credentialsPath, CREDENTIALS);
+    await IOUtils.writeUTF8(configPath, CONFIG);
+    Services.env.set("AWS_SHARED_CREDENTIALS_FILE", credentialsPath);
+    Services.env.set("AWS_CONFIG_FILE", configPath);
+  });
+
+  after(async function () {
+    Services.env.set("AWS_SHARED_CREDENTIALS_FILE", "");
+    Services.env.set("AWS_CONFIG_FILE", "");
+    await IOUtils.remove(credentialsPath);
+    await IOUtils.remove(configPath);
+  });
+
+  it("should parse sections, comments and nested settings", function () {
+    assert.deepEqual(
+      parseIni(
+        "# comment\n[a]\nKey = value\n; another\ns3 =\n  endpoint_url = url\nother = 1\n",
+      ),
+      { a: { key: "value", s3: "", "s3.endpoint_url": "url", other: "1" } },
+    );
+  });
+
+  it("should list the profiles of both files with default first", async function () {
+    assert.deepEqual(await listAwsProfiles(), [
+      "default",
+      "config-only",
+      "work",
+    ]);
+  });
+
+  it("should merge a profile from the credentials and config files", async function () {
+    assert.deepEqual(await loadAwsProfile("work"), {
+      name: "work",
+      accessKeyId: "ASIAWORK",
+      secretAccessKey: "work-secret",
+      sessionToken: "work-token",
+      region: "eu-central-1",
+      endpointUrl: "https://minio.example.com",
+    });
+    assert.equal((await loadAwsProfile("config-only"))?.region, "ap-south-1");
+    assert.isNull(await loadAwsProfile("missing"));
+  });
+
+  it("should treat missing files as empty", async function () {
+    Services.env.set(
+      "AWS_CONFIG_FILE",
+      PathUtils.join(PathUtils.tempDir, "s3sync-missing-config"),
+    );
+
+    assert.deepEqual(await listAwsProfiles(), ["default", "work"]);
+    Services.env.set("AWS_CONFIG_FILE", configPath);
+  });
+});
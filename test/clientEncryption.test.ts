@@ -0,0 +1,125 @@
+import { assert } from "chai";
+import {
+  ClientEncryption,
+  ClientEncryptionError,
+  EncryptionKeyCheck,
+} from "../src/modules/clientEncryption";
+
+const PASSPHRASE = "correct horse battery staple";
+
+describe("ClientEncryption", function () {
+  // PBKDF2 runs with the production iteration count
+  this.timeout(60000);
+
+  let encryption: ClientEncryption;
+  let keyCheck: EncryptionKeyCheck;
+  let tempDir: string;
+
+  before(async function () {
+    ({ encryption, keyCheck } = await ClientEncryption.create(PASSPHRASE));
+    tempDir = PathUtils.join(PathUtils.tempDir, "s3sync-encryption-test");
+    await IOUtils.makeDirectory(tempDir, { ignoreExisting: true });
+  });
+
+  after(async function () {
+    await IOUtils.remove(tempDir, { recursive: true, ignoreAbsent: true });
+  });
+
+  async function rejection(promise: Promise<unknown>): Promise<unknown> {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    assert.fail("Expected the promise to reject");
+  }
+
+  it("should round-trip bytes and add the file header", async function () {
+    const plaintext = new TextEncoder().encode("attachment content");
+    const ciphertext = await encryption.encryptBytes(plaintext);
+
+    assert.isTrue(ClientEncryption.isEncrypted(ciphertext));
+    assert.isFalse(ClientEncryption.isEncrypted(plaintext));
+    assert.deepEqual(
+      Array.from(await encryption.decryptBytes(ciphertext)),
+      Array.from(plaintext),
+    );
+  });
+
+  it("should unlock with the right passphrase only", async function () {
+    const unlocked = await ClientEncryption.unlock(PASSPHRASE, keyCheck);
+    const ciphertext = await encryption.encryptBytes(new Uint8Array([1, 2]));
+    assert.deepEqual(
+      Array.from(await unlocked.decryptBytes(ciphertext)),
+      [1, 2],
+    );
+
+    const error = await rejection(
+      ClientEncryption.unlock("wrong passphrase", keyCheck),
+    );
+    assert.instanceOf(error, ClientEncryptionError);
+    assert.equal((error as ClientEncryptionError).code, "WrongPassphrase");
+  });
+
+  it("should reject tampered ciphertext", async function () {
+    const ciphertext = await encryption.encryptBytes(
+      new TextEncoder().encode("do not modify"),
+    );
+    ciphertext[ciphertext.length - 1] ^= 0xff;
+
+    const error = await rejection(encryption.decryptBytes(ciphertext));
+    assert.instanceOf(error, ClientEncryptionError);
+    assert.equal((error as ClientEncryptionError).code, "DecryptionFailed");
+  });
+
+  it("should encrypt a file deterministically with a seed", async function () {
+    const src = PathUtils.join(tempDir, "plain.bin");
+    const first = PathUtils.join(tempDir, "first.enc");
+    const second = PathUtils.join(tempDir, "second.enc");
+    const restored = PathUtils.join(tempDir, "restored.bin");
+    const content = new Uint8Array(3000).map((_, i) => i % 251);
+    await IOUtils.write(src, content);
+
+    await encryption.encryptFile(src, first, "key/hash");
+    await encryption.encryptFile(src, second, "key/hash");
+    assert.deepEqual(
+      Array.from(await IOUtils.read(first)),
+      Array.from(await IOUtils.read(second)),
+    );
+    assert.isTrue(await ClientEncryption.isEncryptedFile(first));
+
+    await encryption.decryptFile(first, restored);
+    assert.deepEqual(
+      Array.from(await IOUtils.read(restored)),
+      Array.from(content),
+    );
+  });
+
+  it("should derive different salts for different content", async function () {
+    const first = PathUtils.join(tempDir, "a.bin");
+    const second = PathUtils.join(tempDir, "b.bin");
+    await IOUtils.write(first, new TextEncoder().encode("first version"));
+    await IOUtils.write(second, new TextEncoder().encode("second version"));
+
+    await encryption.encryptFile(first, `${first}.enc`, "key");
+    await encryption.encryptFile(second, `${second}.enc`, "key");
+    // The salt follows the magic and the format version
+    const salt = async (path: string) =>
+      Array.from((await IOUtils.read(path)).subarray(5, 21));
+    assert.notDeepEqual(
+      await salt(`${first}.enc`),
+      await salt(`${second}.enc`),
+    );
+  });
+
+  it("should round-trip an empty file", async function () {
+    const src = PathUtils.join(tempDir, "empty.bin");
+    const encrypted = PathUtils.join(tempDir, "empty.enc");
+    const restored = PathUtils.join(tempDir, "empty-restored.bin");
+    await IOUtils.write(src, new Uint8Array(0));
+
+    await encryption.encryptFile(src, encrypted);
+    await encryption.decryptFile(encrypted, restored);
+    assert.equal((await IOUtils.stat(restored)).size, 0);
+  });
+});
@@ -0,0 +1,77 @@
+import { assert } from "chai";
+import {
+  compressFile,
+  decompressBytes,
+  decompressFile,
+  getCompressionFormat,
+  parseCompressionFormat,
+} from "../src/modules/compression";
+import { clearPref, setPref } from "../src/utils/prefs";
+
+describe("Compression", function () {
+  let tempDir: string;
+
+  before(async function () {
+    tempDir = PathUtils.join(PathUtils.tempDir, "s3sync-compression-test");
+    await IOUtils.makeDirectory(tempDir, { ignoreExisting: true });
+  });
+
+  afterEach(function () {
+    clearPref("sync.compression");
+    clearPref("sync.compressionTypes");
+  });
+
+  after(async function () {
+    await IOUtils.remove(tempDir, { recursive: true, ignoreAbsent: true });
+  });
+
+  it("should only compress the configured types", function () {
+    assert.isNull(getCompressionFormat("/tmp/page.html", "text/html"));
+
+    setPref("sync.compression", "gzip");
+    setPref("sync.compressionTypes", ".html, text/*, application/json");
+    assert.equal(getCompressionFormat("/tmp/page.HTML"), "gzip");
+    assert.equal(getCompressionFormat("/tmp/notes", "text/plain"), "gzip");
+    assert.equal(getCompressionFormat("/tmp/data", "application/json"), "gzip");
+    assert.isNull(getCompressionFormat("/tmp/paper.pdf", "application/pdf"));
+  });
+
+  it("should only accept known formats as metadata", function () {
+    assert.equal(parseCompressionFormat("deflate"), "deflate");
+    assert.isUndefined(parseCompressionFormat("br"));
+    assert.isUndefined(parseCompressionFormat(null));
+  });
+
+  it("should round-trip a file larger than one chunk", async function () {
+    const src = PathUtils.join(tempDir, "plain.txt");
+    const compressed = PathUtils.join(tempDir, "plain.txt.gz");
+    const restored = PathUtils.join(tempDir, "restored.txt");
+    const text = "compressible attachment text\n".repeat(80000);
+    const content = new TextEncoder().encode(text);
+    await IOUtils.write(src, content);
+
+    await compressFile(src, compressed, "gzip");
+    const compressedBytes = await IOUtils.read(compressed);
+    assert.isBelow(compressedBytes.length, content.length);
+    assert.equal(
+      new TextDecoder().decode(await decompressBytes(compressedBytes, "gzip")),
+      text,
+    );
+
+    await decompressFile(compressed, restored, "gzip");
+    assert.equal(await IOUtils.readUTF8(restored), text);
+  });
+
+  it("should reject corrupt input instead of hanging", async function () {
+    const src = PathUtils.join(tempDir, "corrupt.gz");
+    await IOUtils.write(src, new TextEncoder().encode("not gzip data"));
+
+    let rejected = false;
+    try {
+      await decompressFile(src, PathUtils.join(tempDir, "corrupt.txt"), "gzip");
+    } catch (error) {
+      rejected = true;
+    }
+    assert.isTrue(rejected);
+  });
+});
@@ -0,0 +1,125 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import {
+  FileCredentialProvider,
+  StaticCredentialProvider,
+  parseCredentialsJson,
+} from "../src/modules/credentials";
+
+describe("credentials", function () {
+  let filePath: string;
+
+  before(function () {
+    filePath = PathUtils.join(PathUtils.tempDir, "s3sync-credentials.json");
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, { ztoolkit: plugin.data.ztoolkit });
+  });
+
+  afterEach(async function () {
+    await IOUtils.remove(filePath, { ignoreAbsent: true });
+  });
+
+  function writeCredentials(accessKeyId: string, expiresIn: number) {
+    return IOUtils.writeUTF8(
+      filePath,
+      JSON.stringify({
+        Credentials: {
+          AccessKeyId: accessKeyId,
+          SecretAccessKey: `${accessKeyId}-secret`,
+          SessionToken: `${accessKeyId}-token`,
+          Expiration: new Date(Date.now() + expiresIn).toISOString(),
+        },
+      }),
+    );
+  }
+
+  it("should parse STS, ECS and bare credential documents", function () {
+    const expiration = "2030-01-01T00:00:00Z";
+
+    assert.deepEqual(
+      parseCredentialsJson(
+        JSON.stringify({
+          Credentials: {
+            AccessKeyId: "ASIA1",
+            SecretAccessKey: "secret",
+            SessionToken: "token",
+            Expiration: expiration,
+          },
+        }),
+        "sts",
+      ),
+      {
+        accessKeyId: "ASIA1",
+        secretAccessKey: "secret",
+        sessionToken: "token",
+        expiration: Date.parse(expiration),
+      },
+    );
+    assert.equal(
+      parseCredentialsJson(
+        '{"AccessKeyId":"ASIA2","SecretAccessKey":"secret","Token":"ecs"}',
+        "ecs",
+      ).sessionToken,
+      "ecs",
+    );
+    const bare = parseCredentialsJson(
+      '{"accessKeyId":"AKIA3","secretAccessKey":"secret"}',
+      "bare",
+    );
+    assert.isUndefined(bare.sessionToken);
+    assert.isUndefined(bare.expiration);
+  });
+
+  it("should reject malformed credential documents", function () {
+    assert.throws(() => parseCredentialsJson("", "empty"), /not valid JSON/);
+    assert.throws(
+      () => parseCredentialsJson('{"AccessKeyId":"AKIA"}', "partial"),
+      /missing AccessKeyId or SecretAccessKey/,
+    );
+    assert.throws(
+      () =>
+        parseCredentialsJson(
+          '{"AccessKeyId":42,"SecretAccessKey":"secret"}',
+          "numeric",
+        ),
+      /missing AccessKeyId or SecretAccessKey/,
+    );
+    assert.throws(
+      () => parseCredentialsJson("null", "null"),
+      /missing AccessKeyId or SecretAccessKey/,
+    );
+  });
+
+  it("should keep static keys without a session token", async function () {
+    const provider = new StaticCredentialProvider("AKIA", "secret", "");
+
+    assert.isTrue(provider.isConfigured());
+    assert.deepEqual(await provider.getCredentials(), {
+      accessKeyId: "AKIA",
+      secretAccessKey: "secret",
+      sessionToken: undefined,
+    });
+    assert.isFalse(new StaticCredentialProvider("AKIA", "").isConfigured());
+  });
+
+  it("should reuse file credentials until they are about to expire", async function () {
+    const provider = new FileCredentialProvider(filePath);
+    await writeCredentials("ASIA-FIRST", 3600 * 1000);
+    assert.equal((await provider.getCredentials()).accessKeyId, "ASIA-FIRST");
+
+    await writeCredentials("ASIA-SECOND", 60 * 1000);
+    assert.equal((await provider.getCredentials()).accessKeyId, "ASIA-FIRST");
+    // A forced refresh, e.g. after ExpiredToken, reads the file again
+    assert.equal(
+      (await provider.getCredentials(true)).accessKeyId,
+      "ASIA-SECOND",
+    );
+
+    // Inside the expiry window every call reloads
+    await writeCredentials("ASIA-THIRD", 3600 * 1000);
+    const credentials = await provider.getCredentials();
+    assert.equal(credentials.accessKeyId, "ASIA-THIRD");
+    assert.equal(credentials.sessionToken, "ASIA-THIRD-token");
+  });
+});
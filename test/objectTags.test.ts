@@ -0,0 +1,75 @@
+import { assert } from "chai";
+import { buildObjectTags } from "../src/modules/objectTags";
+
+describe("buildObjectTags", function () {
+  let items: Zotero.Item[] = [];
+  let collections: Zotero.Collection[] = [];
+
+  afterEach(async function () {
+    await Zotero.Items.erase(items.map((item) => item.id));
+    for (const collection of collections.reverse()) {
+      await collection.eraseTx();
+    }
+    items = [];
+    collections = [];
+  });
+
+  async function createCollection(name: string, parentID?: number) {
+    const collection = new Zotero.Collection();
+    collection.name = name;
+    if (parentID) {
+      collection.parentID = parentID;
+    }
+    await collection.saveTx();
+    collections.push(collection);
+    return collection;
+  }
+
+  async function createItem(title: string): Promise<Zotero.Item> {
+    const item = new Zotero.Item("journalArticle");
+    item.setField("title", title);
+    item.setField("date", "2021-03-15");
+    item.setField("DOI", "10.1000/xyz123");
+    item.setCreators([
+      { firstName: "Ada", lastName: "Lovelace", creatorType: "author" },
+    ]);
+    await item.saveTx();
+    items.push(item);
+    return item;
+  }
+
+  it("should describe an attachment by its parent item", async function () {
+    const thesis = await createCollection("Thesis");
+    const chapter = await createCollection("Chapter 2", thesis.id);
+    const parent = await createItem("Notes on the <Analytical> Engine?");
+    parent.addToCollection(chapter.id);
+    await parent.saveTx();
+
+    const attachment = new Zotero.Item("attachment");
+    attachment.attachmentLinkMode = Zotero.Attachments.LINK_MODE_IMPORTED_FILE;
+    attachment.attachmentContentType = "application/pdf";
+    attachment.parentID = parent.id;
+    await attachment.saveTx();
+    items.unshift(attachment);
+
+    assert.deepEqual(buildObjectTags(attachment), {
+      "zotero-title": "Notes on the Analytical Engine",
+      "zotero-author": "Ada Lovelace",
+      "zotero-year": "2021",
+      "zotero-doi": "10.1000/xyz123",
+      "zotero-library": String(Zotero.Libraries.userLibraryID),
+      "zotero-item": parent.key,
+      "zotero-content-type": "application/pdf",
+      "zotero-collections": "Thesis/Chapter 2",
+    });
+  });
+
+  it("should skip collections that no longer exist", async function () {
+    const item = await createItem("Orphaned");
+    const getCollections = item.getCollections.bind(item);
+    // A collection ID left behind by a deletion that is still in progress
+    item.getCollections = () => [...getCollections(), 987654321];
+
+    assert.notProperty(buildObjectTags(item), "zotero-collections");
+  });
+});
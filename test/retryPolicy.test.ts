@@ -0,0 +1,120 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import { RetryPolicy, parseRetryAfter } from "../src/modules/retryPolicy";
+import {
+  S3AbortError,
+  S3AccessDeniedError,
+  S3NetworkError,
+  S3SlowDownError,
+} from "../src/modules/s3Errors";
+
+describe("RetryPolicy", function () {
+  before(function () {
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, { ztoolkit: plugin.data.ztoolkit });
+  });
+
+  /**
+   * Operation that fails with the given errors in turn, then succeeds
+   */
+  function failing(...errors: Error[]) {
+    const attempts: number[] = [];
+    const operation = async (attempt: number) => {
+      attempts.push(attempt);
+      const error = errors.shift();
+      if (error) {
+        throw error;
+      }
+      return "done";
+    };
+    return { attempts, operation };
+  }
+
+  it("should retry transient failures until the operation succeeds", async function () {
+    const { attempts, operation } = failing(
+      new S3NetworkError(),
+      new S3SlowDownError("Slow Down", { code: "SlowDown", status: 503 }),
+    );
+
+    const result = await new RetryPolicy(4, 0).execute(operation, "test");
+
+    assert.equal(result, "done");
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it("should rethrow the last error once attempts run out", async function () {
+    const last = new S3NetworkError("last");
+    const { attempts, operation } = failing(new S3NetworkError(), last);
+
+    let error: unknown;
+    try {
+      await new RetryPolicy(2, 0).execute(operation, "test");
+    } catch (e) {
+      error = e;
+    }
+
+    assert.strictEqual(error, last);
+    assert.deepEqual(attempts, [1, 2]);
+  });
+
+  it("should not retry permanent failures", async function () {
+    const denied = new S3AccessDeniedError("Access Denied", {
+      code: "AccessDenied",
+      status: 403,
+    });
+    const { attempts, operation } = failing(denied);
+
+    let error: unknown;
+    try {
+      await new RetryPolicy(4, 0).execute(operation, "test");
+    } catch (e) {
+      error = e;
+    }
+
+    assert.strictEqual(error, denied);
+    assert.deepEqual(attempts, [1]);
+  });
+
+  it("should stop retrying when the signal aborts", async function () {
+    const controller = new AbortController();
+    const { attempts, operation } = failing(new S3NetworkError());
+    const aborting = async (attempt: number) => {
+      controller.abort();
+      return operation(attempt);
+    };
+
+    let error: unknown;
+    try {
+      await new RetryPolicy(4, 0).execute(aborting, "test", controller.signal);
+    } catch (e) {
+      error = e;
+    }
+
+    assert.instanceOf(error, S3AbortError);
+    assert.deepEqual(attempts, [1]);
+  });
+
+  it("should cap the backoff and Retry-After at the maximum delay", function () {
+    const policy = new RetryPolicy(4, 1000);
+
+    for (let retry = 1; retry <= 10; retry++) {
+      const delay = policy.getDelay(retry);
+      assert.isAtLeast(delay, 0);
+      assert.isBelow(delay, 1000);
+    }
+    assert.isBelow(policy.getDelay(1), 500);
+    assert.equal(policy.getDelay(1, 300), 300);
+    assert.equal(policy.getDelay(1, 60000), 1000);
+  });
+
+  it("should parse Retry-After seconds and dates", function () {
+    assert.equal(parseRetryAfter("3"), 3000);
+    assert.isUndefined(parseRetryAfter(null));
+    assert.isUndefined(parseRetryAfter("soon"));
+
+    const date = parseRetryAfter(new Date(Date.now() + 10000).toUTCString());
+    assert.isAbove(date!, 8000);
+    assert.isAtMost(date!, 10000);
+  });
+});
@@ -0,0 +1,807 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import { MemoryS3Backend } from "../src/modules/memoryS3Backend";
+import { S3Manager } from "../src/modules/s3Client";
+import {
+  S3AbortError,
+  S3AccessDeniedError,
+  S3ArchivedObjectError,
+  S3EncryptionError,
+  S3Error,
+  S3NotFoundError,
+  S3PreconditionFailedError,
+} from "../src/modules/s3Errors";
+import { SecretStore } from "../src/modules/secretStore";
+import { clearPref, setPref } from "../src/utils/prefs";
+
+const ENDPOINT = "http://s3.memory.test";
+const BUCKET = "zotero-s3-test";
+const MB = 1024 * 1024;
+
+const TEST_PREFS = [
+  "s3.endpoint",
+  "s3.region",
+  "s3.bucketName",
+  "s3.accessKeyId",
+  "s3.addressingStyle",
+  "s3.retryMaxDelay",
+  "s3.connectTimeout",
+  "s3.retryMaxAttempts",
+  "s3.sseMode",
+  "s3.multipartThreshold",
+  "s3.multipartPartSize",
+  "s3.downloadChunkSize",
+  "sync.capabilities",
+  "sync.transferState",
+  "sync.uploadLimit",
+];
+
+describe("S3Manager", function () {
+  this.timeout(60000);
+
+  const backend = new MemoryS3Backend(BUCKET);
+  const secrets = new SecretStore(ENDPOINT, BUCKET);
+  let tempPaths: string[] = [];
+
+  before(async function () {
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, {
+      addon: plugin,
+      ztoolkit: plugin.data.ztoolkit,
+    });
+
+    setPref("s3.endpoint", ENDPOINT);
+    setPref("s3.region", "us-east-1");
+    setPref("s3.bucketName", BUCKET);
+    setPref("s3.accessKeyId", "test-access-key");
+    setPref("s3.addressingStyle", "path");
+    setPref("s3.retryMaxDelay", 0);
+    setPref("s3.connectTimeout", 1);
+    setPref("s3.multipartThreshold", 5);
+    setPref("s3.multipartPartSize", 5);
+    setPref("s3.downloadChunkSize", 1);
+    await secrets.set("secretAccessKey", "test-secret-key");
+  });
+
+  after(function () {
+    TEST_PREFS.forEach((key) => clearPref(key));
+    secrets.remove("secretAccessKey");
+  });
+
+  beforeEach(function () {
+    backend.reset();
+    clearPref("sync.capabilities");
+    clearPref("sync.transferState");
+    clearPref("s3.retryMaxAttempts");
+  });
+
+  afterEach(async function () {
+    await Promise.all(
+      tempPaths.map((path) => IOUtils.remove(path, { ignoreAbsent: true })),
+    );
+    tempPaths = [];
+  });
+
+  /**
+   * Each call gets a fresh manager, as after a restart
+   */
+  function createManager(): S3Manager {
+    return new S3Manager(backend);
+  }
+
+  function getTempPath(name: string): string {
+    const path = PathUtils.join(PathUtils.tempDir, `s3client-test-${name}`);
+    tempPaths.push(path);
+    return path;
+  }
+
+  /**
+   * Write a file of the given size with a repeating byte pattern
+   */
+  async function createFile(name: string, size: number): Promise<string> {
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i++) {
+      bytes[i] = i % 251;
+    }
+    const path = getTempPath(name);
+    await IOUtils.write(path, bytes);
+    return path;
+  }
+
+  /**
+   * Resolve with the error a promise rejects with, failing if it resolves
+   */
+  async function rejection(promise: Promise<unknown>): Promise<unknown> {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    return assert.fail("Expected the promise to reject");
+  }
+
+  /**
+   * Collect the debug log written while the callback runs
+   */
+  async function captureLog(callback: () => Promise<unknown>): Promise<string> {
+    const log = ztoolkit.log;
+    const lines: string[] = [];
+    ztoolkit.log = (...args: any[]) => {
+      lines.push(args.map(String).join(" "));
+    };
+    try {
+      await callback();
+    } finally {
+      ztoolkit.log = log;
+    }
+    return lines.join("\n");
+  }
+
+  function countRequests(method: string, query = ""): number {
+    return backend.requests.filter(
+      (request) => request.method === method && request.query.includes(query),
+    ).length;
+  }
+
+  describe("multipart uploads", function () {
+    it("should upload files above the threshold in parts", async function () {
+      const path = await createFile("multipart.bin", 11 * MB);
+
+      const etag = await createManager().uploadFileFromPath(
+        path,
+        "multipart.bin",
+      );
+
+      const object = backend.getObject("multipart.bin");
+      assert.deepEqual(object?.body, await IOUtils.read(path));
+      assert.match(object?.etag || "", /-3$/);
+      // Taken from the CompleteMultipartUpload result
+      assert.equal(etag, `"${object?.etag}"`);
+      assert.equal(countRequests("POST", "uploads"), 1);
+      assert.equal(countRequests("PUT", "partNumber="), 3);
+    });
+
+    it("should upload small files with a single PUT", async function () {
+      const path = await createFile("single.bin", 1024);
+
+      const etag = await createManager().uploadFileFromPath(path, "single.bin");
+
+      assert.equal(backend.getObject("single.bin")?.body.length, 1024);
+      assert.equal(etag, `"${backend.getObject("single.bin")?.etag}"`);
+      assert.equal(countRequests("POST"), 0);
+      assert.equal(countRequests("PUT"), 1);
+    });
+
+    it("should resume an interrupted upload with the parts already sent", async function () {
+      const path = await createFile("resumed.bin", 11 * MB);
+      backend.failNext({
+        method: "PUT",
+        query: "partNumber=2",
+        status: 403,
+        code: "AccessDenied",
+      });
+
+      await rejection(createManager().uploadFileFromPath(path, "resumed.bin"));
+      assert.isUndefined(backend.getObject("resumed.bin"));
+
+      backend.requests.length = 0;
+      await createManager().uploadFileFromPath(path, "resumed.bin");
+
+      assert.deepEqual(
+        backend.getObject("resumed.bin")?.body,
+        await IOUtils.read(path),
+      );
+      assert.equal(countRequests("POST", "uploads"), 0);
+      assert.equal(countRequests("PUT", "partNumber=1"), 0);
+      assert.equal(countRequests("PUT", "partNumber="), 2);
+    });
+
+    it("should start over when the file changed since the interruption", async function () {
+      const path = await createFile("changed.bin", 11 * MB);
+      backend.failNext({
+        method: "PUT",
+        query: "partNumber=2",
+        status: 403,
+        code: "AccessDenied",
+      });
+      await rejection(createManager().uploadFileFromPath(path, "changed.bin"));
+
+      await createFile("changed.bin", 12 * MB);
+      backend.requests.length = 0;
+      await createManager().uploadFileFromPath(path, "changed.bin");
+
+      assert.equal(backend.getObject("changed.bin")?.body.length, 12 * MB);
+      // The stale upload is aborted before a new one is created
+      assert.equal(countRequests("DELETE", "uploadId="), 1);
+      assert.equal(countRequests("POST", "uploads"), 1);
+      assert.equal(countRequests("PUT", "partNumber="), 3);
+    });
+  });
+
+  describe("ranged downloads", function () {
+    function createObject(key: string, size: number): Uint8Array {
+      const bytes = new Uint8Array(size);
+      for (let i = 0; i < size; i++) {
+        bytes[i] = (i * 7) % 253;
+      }
+      backend.putObject(key, bytes);
+      return bytes;
+    }
+
+    it("should download in range chunks straight to disk", async function () {
+      const bytes = createObject("ranged.bin", 2.5 * MB);
+      const path = getTempPath("ranged.bin");
+
+      const meta = await createManager().downloadFileToPath("ranged.bin", path);
+
+      assert.equal(meta.size, bytes.length);
+      assert.deepEqual(await IOUtils.read(path), bytes);
+      const ranges = backend.requests
+        .filter((request) => request.method === "GET")
+        .map((request) => request.headers["range"]);
+      assert.deepEqual(ranges, [
+        "bytes=0-1048575",
+        "bytes=1048576-2097151",
+        "bytes=2097152-2621439",
+      ]);
+      assert.isFalse(await IOUtils.exists(`${path}.s3sync-part`));
+    });
+
+    it("should resume an interrupted download from the partial file", async function () {
+      const bytes = createObject("resumed.bin", 2.5 * MB);
+      const path = getTempPath("resumed.bin");
+      getTempPath("resumed.bin.s3sync-part");
+      const controller = new AbortController();
+
+      await rejection(
+        createManager().downloadFileToPath("resumed.bin", path, {
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }),
+      );
+      assert.isFalse(await IOUtils.exists(path));
+
+      backend.requests.length = 0;
+      await createManager().downloadFileToPath("resumed.bin", path);
+
+      assert.deepEqual(await IOUtils.read(path), bytes);
+      assert.equal(
+        backend.requests.find((request) => request.method === "GET")?.headers[
+          "range"
+        ],
+        "bytes=1048576-2097151",
+      );
+    });
+
+    it("should start over when the object changed since the interruption", async function () {
+      createObject("replaced.bin", 2.5 * MB);
+      const path = getTempPath("replaced.bin");
+      getTempPath("replaced.bin.s3sync-part");
+      const controller = new AbortController();
+      await rejection(
+        createManager().downloadFileToPath("replaced.bin", path, {
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }),
+      );
+
+      backend.putObject("replaced.bin", "replaced");
+      backend.requests.length = 0;
+      await createManager().downloadFileToPath("replaced.bin", path);
+
+      assert.equal(await IOUtils.readUTF8(path), "replaced");
+      assert.equal(
+        backend.requests.find((request) => request.method === "GET")?.headers[
+          "range"
+        ],
+        "bytes=0-7",
+      );
+    });
+  });
+
+  describe("addressing styles", function () {
+    afterEach(function () {
+      setPref("s3.endpoint", ENDPOINT);
+      setPref("s3.bucketName", BUCKET);
+      setPref("s3.addressingStyle", "path");
+    });
+
+    it("should send virtual-hosted-style requests when configured", async function () {
+      setPref("s3.addressingStyle", "virtual");
+
+      await createManager().uploadFile(new Blob(["virtual"]), "virtual.txt");
+
+      // The backend only accepts the bucket as a subdomain or path segment
+      assert.equal(
+        new TextDecoder().decode(backend.getObject("virtual.txt")?.body),
+        "virtual",
+      );
+      assert.equal(
+        createManager().getConnectionInfo().addressingStyle,
+        "virtual",
+      );
+    });
+
+    it("should pick the style from the provider in auto mode", function () {
+      setPref("s3.addressingStyle", "auto");
+      const styleFor = (endpoint: string, bucket = BUCKET) => {
+        setPref("s3.endpoint", endpoint);
+        setPref("s3.bucketName", bucket);
+        return createManager().getConnectionInfo().addressingStyle;
+      };
+
+      assert.equal(styleFor("https://s3.eu-west-1.amazonaws.com"), "virtual");
+      assert.equal(styleFor("https://oss-cn-hangzhou.aliyuncs.com"), "virtual");
+      assert.equal(styleFor("http://localhost:9000"), "path");
+      // Dotted names break the wildcard certificate of a virtual host
+      assert.equal(
+        styleFor("https://s3.eu-west-1.amazonaws.com", "my.bucket"),
+        "path",
+      );
+      assert.equal(
+        styleFor("https://s3.eu-west-1.amazonaws.com", "Not_DNS"),
+        "path",
+      );
+    });
+  });
+
+  describe("errors", function () {
+    it("should reject with typed errors instead of null results", async function () {
+      const manager = createManager();
+
+      const missing = await rejection(manager.getObjectMetadata("missing.txt"));
+      assert.instanceOf(missing, S3NotFoundError);
+      assert.isFalse(await manager.fileExists("missing.txt"));
+
+      backend.putObject("denied.txt", "denied");
+      backend.failNext({
+        method: "GET",
+        key: "denied.txt",
+        status: 403,
+        code: "AccessDenied",
+      });
+      const denied = await rejection(manager.downloadFile("denied.txt"));
+      assert.instanceOf(denied, S3AccessDeniedError);
+      assert.equal((denied as S3AccessDeniedError).requestId, "memory");
+      assert.equal((denied as S3AccessDeniedError).key, "denied.txt");
+    });
+  });
+
+  describe("retries", function () {
+    function putCount(key: string): number {
+      return backend.requests.filter(
+        (request) => request.method === "PUT" && request.key === key,
+      ).length;
+    }
+
+    it("should retry transient failures with backoff", async function () {
+      backend.failNext({ method: "PUT", status: 500, code: "InternalError" });
+      backend.failNext({ method: "PUT", timeout: true });
+
+      await createManager().uploadFile(new Blob(["retried"]), "retried.txt");
+
+      assert.isDefined(backend.getObject("retried.txt"));
+      assert.equal(putCount("retried.txt"), 3);
+    });
+
+    it("should give up after the configured number of attempts", async function () {
+      setPref("s3.retryMaxAttempts", 2);
+      backend.failNext({
+        method: "PUT",
+        status: 503,
+        code: "SlowDown",
+        times: 5,
+      });
+
+      const error = await rejection(
+        createManager().uploadFile(new Blob(["busy"]), "busy.txt"),
+      );
+
+      assert.equal((error as S3Error).code, "SlowDown");
+      assert.equal(putCount("busy.txt"), 2);
+    });
+
+    it("should not retry permanent failures", async function () {
+      backend.failNext({ method: "PUT", status: 403, code: "AccessDenied" });
+
+      await rejection(
+        createManager().uploadFile(new Blob(["denied"]), "denied.txt"),
+      );
+
+      assert.equal(putCount("denied.txt"), 1);
+    });
+  });
+
+  describe("temporary credentials", function () {
+    afterEach(function () {
+      secrets.remove("sessionToken");
+      clearPref("s3.credentialSource");
+      clearPref("s3.credentialFile");
+    });
+
+    it("should send the session token without logging it", async function () {
+      await secrets.set("sessionToken", "secret-session-token");
+
+      const log = await captureLog(() =>
+        createManager().uploadFile(new Blob(["token"]), "token.txt"),
+      );
+
+      const put = backend.requests.find((request) => request.method === "PUT");
+      assert.equal(
+        put?.headers["x-amz-security-token"],
+        "secret-session-token",
+      );
+      assert.include(log, "x-amz-security-token:<redacted>");
+      assert.notInclude(log, "secret-session-token");
+    });
+
+    it("should refresh expired session credentials once", async function () {
+      const filePath = getTempPath("credentials.json");
+      const writeCredentials = (accessKeyId: string) =>
+        IOUtils.writeUTF8(
+          filePath,
+          JSON.stringify({
+            AccessKeyId: accessKeyId,
+            SecretAccessKey: "temporary-secret",
+            SessionToken: `${accessKeyId}-token`,
+            Expiration: new Date(Date.now() + 3600 * 1000).toISOString(),
+          }),
+        );
+      setPref("s3.credentialSource", "file");
+      setPref("s3.credentialFile", filePath);
+      await writeCredentials("ASIA-EXPIRED");
+      const manager = createManager();
+      await manager.uploadFile(new Blob(["first"]), "first.txt");
+
+      await writeCredentials("ASIA-FRESH");
+      backend.failNext({ method: "PUT", status: 400, code: "ExpiredToken" });
+      await manager.uploadFile(new Blob(["second"]), "second.txt");
+
+      const [expired, retry] = backend.requests.filter(
+        (request) => request.key === "second.txt",
+      );
+      assert.equal(
+        expired.headers["x-amz-security-token"],
+        "ASIA-EXPIRED-token",
+      );
+      assert.equal(retry.headers["x-amz-security-token"], "ASIA-FRESH-token");
+      assert.include(retry.headers["authorization"], "Credential=ASIA-FRESH/");
+    });
+  });
+
+  describe("AWS profiles", function () {
+    afterEach(function () {
+      Services.env.set("AWS_SHARED_CREDENTIALS_FILE", "");
+      clearPref("s3.credentialSource");
+      clearPref("s3.awsProfile");
+    });
+
+    it("should sign with the keys and region of the selected profile", async function () {
+      const credentialsPath = getTempPath("aws-credentials");
+      await IOUtils.writeUTF8(
+        credentialsPath,
+        `[sync]\naws_access_key_id = AKIAPROFILE\naws_secret_access_key = profile-secret\nregion = eu-west-3\nendpoint_url = ${ENDPOINT}\n`,
+      );
+      Services.env.set("AWS_SHARED_CREDENTIALS_FILE", credentialsPath);
+      setPref("s3.credentialSource", "profile");
+      setPref("s3.awsProfile", "sync");
+
+      const manager = createManager();
+      await manager.uploadFile(new Blob(["profile"]), "profile.txt");
+
+      assert.equal(manager.getConnectionInfo().region, "eu-west-3");
+      assert.include(
+        backend.requests[0].headers["authorization"],
+        "Credential=AKIAPROFILE/",
+      );
+      assert.include(
+        backend.requests[0].headers["authorization"],
+        "/eu-west-3/s3/",
+      );
+    });
+  });
+
+  describe("server-side encryption", function () {
+    afterEach(function () {
+      clearPref("s3.sseMode");
+      secrets.remove("sseCustomerKey");
+    });
+
+    it("should send the SSE-C key on writes and reads without logging it", async function () {
+      const customerKey = btoa(String.fromCharCode(...new Array(32).fill(7)));
+      setPref("s3.sseMode", "SSE-C");
+      await secrets.set("sseCustomerKey", customerKey);
+      const manager = createManager();
+
+      const log = await captureLog(async () => {
+        await manager.uploadFile(new Blob(["encrypted"]), "sse-c.txt");
+        await manager.downloadFile("sse-c.txt");
+        await manager.getObjectMetadata("sse-c.txt");
+      });
+
+      assert.deepEqual(
+        backend.requests.map((request) => [
+          request.method,
+          request.headers["x-amz-server-side-encryption-customer-key"],
+        ]),
+        [
+          ["PUT", customerKey],
+          ["GET", customerKey],
+          ["HEAD", customerKey],
+        ],
+      );
+      assert.include(
+        log,
+        "x-amz-server-side-encryption-customer-key:<redacted>",
+      );
+      assert.include(
+        log,
+        "x-amz-server-side-encryption-customer-key-md5:<redacted>",
+      );
+      assert.notInclude(log, customerKey);
+    });
+
+    it("should only ask for SSE-KMS when writing", async function () {
+      setPref("s3.sseMode", "aws:kms");
+      const manager = createManager();
+
+      await manager.uploadFile(new Blob(["kms"]), "kms.txt");
+      await manager.downloadFile("kms.txt");
+
+      const [put, get] = backend.requests;
+      assert.equal(put.headers["x-amz-server-side-encryption"], "aws:kms");
+      assert.notProperty(get.headers, "x-amz-server-side-encryption");
+    });
+  });
+
+  describe("batch deletes", function () {
+    it("should split large deletes into batches of 1,000 keys", async function () {
+      const keys = Array.from({ length: 1001 }, (_, i) => `batch/${i}`);
+      keys.forEach((key) => backend.putObject(key, "x"));
+
+      const result = await createManager().deleteFiles(keys);
+      assert.lengthOf(result.deleted, 1001);
+      assert.equal(result.errors.size, 0);
+      assert.equal(countRequests("POST", "delete"), 2);
+      assert.isTrue(
+        backend.requests.every(
+          (request) =>
+            request.method !== "POST" || "content-md5" in request.headers,
+        ),
+      );
+      assert.isEmpty(backend.listKeys());
+    });
+
+    it("should report per-key and per-batch failures", async function () {
+      backend.putObject("kept", "x");
+      backend.putObject("removed", "x");
+      backend.deleteDenied.add("kept");
+
+      const result = await createManager().deleteFiles(["kept", "removed"]);
+      assert.deepEqual(result.deleted, ["removed"]);
+      assert.instanceOf(result.errors.get("kept"), S3AccessDeniedError);
+      assert.deepEqual(backend.listKeys(), ["kept"]);
+
+      // A failed request fails every key in its batch without rejecting
+      backend.failNext({ method: "POST", query: "delete", status: 403 });
+      const failed = await createManager().deleteFiles(["kept"]);
+      assert.isEmpty(failed.deleted);
+      assert.instanceOf(failed.errors.get("kept"), S3Error);
+    });
+
+    it("should reject without sending later batches when cancelled", async function () {
+      const keys = Array.from({ length: 1001 }, (_, i) => `batch/${i}`);
+      const controller = new AbortController();
+      backend.failNext({
+        method: "POST",
+        query: "delete",
+        stall: true,
+        onRequest: () => controller.abort(),
+      });
+
+      const error = await rejection(
+        createManager().deleteFiles(keys, controller.signal),
+      );
+      assert.instanceOf(error, S3AbortError);
+      assert.equal(countRequests("POST", "delete"), 1);
+    });
+  });
+
+  describe("conditional writes", function () {
+    it("should only create an object that does not exist", async function () {
+      const manager = createManager();
+      await manager.uploadFile(new Blob(["first"]), "manifest.json", {
+        ifNoneMatch: true,
+      });
+
+      const error = await rejection(
+        manager.uploadFile(new Blob(["second"]), "manifest.json", {
+          ifNoneMatch: true,
+        }),
+      );
+      assert.instanceOf(error, S3PreconditionFailedError);
+      assert.equal(
+        new TextDecoder().decode(backend.getObject("manifest.json")?.body),
+        "first",
+      );
+    });
+
+    it("should only overwrite the object with the given ETag", async function () {
+      const manager = createManager();
+      await manager.uploadFile(new Blob(["first"]), "manifest.json");
+      const { etag } = await manager.downloadFileWithETag("manifest.json");
+
+      const updated = await manager.uploadFile(
+        new Blob(["second"]),
+        "manifest.json",
+        { ifMatch: etag },
+      );
+      assert.notEqual(updated, etag);
+
+      // The ETag read before the update is stale now
+      const error = await rejection(
+        manager.uploadFile(new Blob(["third"]), "manifest.json", {
+          ifMatch: etag,
+        }),
+      );
+      assert.instanceOf(error, S3PreconditionFailedError);
+      assert.equal(
+        new TextDecoder().decode(backend.getObject("manifest.json")?.body),
+        "second",
+      );
+    });
+  });
+
+  describe("presigned URLs", function () {
+    afterEach(function () {
+      clearPref("s3.sseMode");
+      secrets.remove("sseCustomerKey");
+    });
+
+    it("should sign the query string and cap the expiry", async function () {
+      const url = new URL(
+        await createManager().getPresignedUrl("shared/paper.pdf", {
+          expiresIn: 30 * 24 * 3600,
+          filename: "Résumé.pdf",
+          contentType: "application/pdf",
+        }),
+      );
+      const params = url.searchParams;
+
+      assert.equal(url.pathname, `/${BUCKET}/shared/paper.pdf`);
+      assert.equal(params.get("X-Amz-Algorithm"), "AWS4-HMAC-SHA256");
+      assert.match(
+        params.get("X-Amz-Credential") || "",
+        /^test-access-key\/\d{8}\/us-east-1\/s3\/aws4_request$/,
+      );
+      assert.equal(params.get("X-Amz-Expires"), String(7 * 24 * 3600));
+      assert.equal(params.get("X-Amz-SignedHeaders"), "host");
+      assert.match(params.get("X-Amz-Signature") || "", /^[0-9a-f]{64}$/);
+      assert.equal(params.get("response-content-type"), "application/pdf");
+      assert.include(
+        params.get("response-content-disposition") || "",
+        "filename*=UTF-8''R%C3%A9sum%C3%A9.pdf",
+      );
+      // Nothing is sent to create a link
+      assert.isEmpty(backend.requests);
+    });
+
+    it("should refuse to share SSE-C objects", async function () {
+      setPref("s3.sseMode", "SSE-C");
+      await secrets.set(
+        "sseCustomerKey",
+        btoa(String.fromCharCode(...new Array(32).fill(7))),
+      );
+
+      const error = await rejection(
+        createManager().getPresignedUrl("shared/paper.pdf"),
+      );
+      assert.instanceOf(error, S3EncryptionError);
+    });
+  });
+
+  describe("archive storage classes", function () {
+    it("should store the chosen storage class and refuse archived reads", async function () {
+      const manager = createManager();
+      await manager.uploadFile(new Blob(["cold"]), "cold.txt", {
+        storageClass: "GLACIER",
+      });
+
+      assert.equal(backend.getObject("cold.txt")?.storageClass, "GLACIER");
+      const meta = await manager.getObjectMetadata("cold.txt");
+      assert.equal(meta.storageClass, "GLACIER");
+      assert.isUndefined(meta.restore);
+      assert.instanceOf(
+        await rejection(manager.downloadFile("cold.txt")),
+        S3ArchivedObjectError,
+      );
+    });
+
+    it("should track a restore until the copy is available", async function () {
+      backend.putObject("cold.txt", "cold", { storageClass: "DEEP_ARCHIVE" });
+      const manager = createManager();
+
+      assert.equal(await manager.restoreObject("cold.txt"), "requested");
+      assert.isTrue(manager.hasPendingRestore("cold.txt"));
+      assert.equal(
+        (await manager.getObjectMetadata("cold.txt")).restore,
+        "ongoing",
+      );
+
+      // Asking again while S3 is still restoring is not an error
+      assert.equal(
+        await createManager().restoreObject("cold.txt"),
+        "requested",
+      );
+      assert.equal(countRequests("POST", "restore"), 2);
+
+      backend.getObject("cold.txt")!.restore = "restored";
+      assert.equal(await manager.restoreObject("cold.txt"), "restored");
+      assert.equal(
+        await (await manager.downloadFile("cold.txt")).text(),
+        "cold",
+      );
+
+      manager.clearPendingRestore("cold.txt");
+      assert.isFalse(createManager().hasPendingRestore("cold.txt"));
+    });
+  });
+
+  describe("bandwidth limits", function () {
+    const KB = 1024;
+
+    beforeEach(function () {
+      setPref("sync.uploadLimit", 16);
+    });
+
+    afterEach(function () {
+      clearPref("sync.uploadLimit");
+    });
+
+    /**
+     * Signing time of a request, from its x-amz-date header
+     */
+    function signedAt(index: number): number {
+      const match = backend.requests[index].headers["x-amz-date"].match(
+        /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+      )!;
+      const [, year, month, day, hour, minute, second] = match.map(Number);
+      return Date.UTC(year, month - 1, day, hour, minute, second);
+    }
+
+    it("should sign a request after waiting for the limit", async function () {
+      const manager = createManager();
+      // 32 KB at 16 KB/s leaves a second of debt
+      await manager.uploadFile(new Blob([new Uint8Array(32 * KB)]), "a.bin");
+
+      const start = Date.now();
+      await manager.uploadFile(new Blob([new Uint8Array(KB)]), "b.bin");
+      assert.isAtLeast(signedAt(1), Math.floor((start + 900) / 1000) * 1000);
+    });
+
+    it("should pay for a large body before sending it", async function () {
+      const start = Date.now();
+      // 48 KB at 16 KB/s: the full bucket covers the first second and the
+      // last second is sent on credit, which leaves one second to wait
+      await createManager().uploadFile(
+        new Blob([new Uint8Array(48 * KB)]),
+        "large.bin",
+      );
+      assert.isAtLeast(signedAt(0), Math.floor((start + 900) / 1000) * 1000);
+    });
+
+    it("should not charge a failed attempt against the limit", async function () {
+      const manager = createManager();
+      backend.failNext({ method: "PUT", network: true, times: 2 });
+
+      // Each attempt takes the whole bucket; only the last one is kept
+      await manager.uploadFile(new Blob([new Uint8Array(16 * KB)]), "a.bin");
+      assert.equal(countRequests("PUT"), 3);
+
+      const start = Date.now();
+      await manager.uploadFile(new Blob([new Uint8Array(KB)]), "b.bin");
+      assert.isBelow(Date.now() - start, 900);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { assert } from "chai";
+import {
+  S3AccessDeniedError,
+  S3ArchivedObjectError,
+  S3ClockSkewError,
+  S3EncryptionError,
+  S3Error,
+  S3NotFoundError,
+  S3PreconditionFailedError,
+  S3ServerError,
+  S3SignatureMismatchError,
+  S3SlowDownError,
+  createS3Error,
+  parseS3ErrorXml,
+} from "../src/modules/s3Errors";
+
+function errorXml(code: string, message = "message"): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message><RequestId>request-1</RequestId></Error>`;
+}
+
+describe("s3Errors", function () {
+  it("should parse the fields of an error document", function () {
+    assert.deepEqual(parseS3ErrorXml(errorXml("NoSuchKey", "Missing")), {
+      code: "NoSuchKey",
+      message: "Missing",
+      requestId: "request-1",
+    });
+    assert.isNull(parseS3ErrorXml(""));
+    assert.isNull(parseS3ErrorXml("<html>Bad Gateway</html>"));
+  });
+
+  it("should map error codes to typed errors", function () {
+    const cases: [number, string, typeof S3Error][] = [
+      [404, "NoSuchKey", S3NotFoundError],
+      [404, "NoSuchBucket", S3NotFoundError],
+      [403, "AccessDenied", S3AccessDeniedError],
+      [403, "InvalidAccessKeyId", S3AccessDeniedError],
+      [403, "SignatureDoesNotMatch", S3SignatureMismatchError],
+      [403, "RequestTimeTooSkewed", S3ClockSkewError],
+      [403, "InvalidObjectState", S3ArchivedObjectError],
+      [400, "KMS.NotFoundException", S3EncryptionError],
+      [412, "PreconditionFailed", S3PreconditionFailedError],
+      [503, "SlowDown", S3SlowDownError],
+      [500, "InternalError", S3ServerError],
+    ];
+    for (const [status, code, errorClass] of cases) {
+      const error = createS3Error(status, errorXml(code), "key");
+      assert.instanceOf(error, errorClass, code);
+      assert.equal(error.code, code);
+      assert.equal(error.status, status);
+      assert.equal(error.key, "key");
+      assert.equal(error.requestId, "request-1");
+    }
+  });
+
+  it("should fall back to the status for bodiless HEAD errors", function () {
+    const notFound = createS3Error(404, "", "key", "header-request");
+    assert.instanceOf(notFound, S3NotFoundError);
+    assert.equal(notFound.code, "NotFound");
+    assert.equal(notFound.requestId, "header-request");
+
+    assert.instanceOf(createS3Error(403, ""), S3AccessDeniedError);
+    assert.instanceOf(createS3Error(429, ""), S3SlowDownError);
+    assert.instanceOf(createS3Error(502, ""), S3ServerError);
+  });
+
+  it("should describe the error with a hint and the request ID", function () {
+    const error = createS3Error(404, errorXml("NoSuchBucket", "Missing"));
+
+    assert.equal(
+      error.describe(),
+      "NoSuchBucket: Missing Check the bucket name and region. (RequestId: request-1)",
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import { SecretStore } from "../src/modules/secretStore";
+import { clearPref, getPref, setPref } from "../src/utils/prefs";
+
+const ENDPOINT = "https://secrets.memory.test";
+
+describe("SecretStore", function () {
+  const store = new SecretStore(ENDPOINT, "first-bucket");
+  const other = new SecretStore(ENDPOINT, "second-bucket");
+
+  before(function () {
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, { ztoolkit: plugin.data.ztoolkit });
+  });
+
+  afterEach(function () {
+    for (const secrets of [store, other]) {
+      secrets.remove("secretAccessKey");
+      secrets.remove("sessionToken");
+    }
+    clearPref("s3.endpoint");
+    clearPref("s3.bucketName");
+    clearPref("s3.secretAccessKey");
+  });
+
+  it("should save, replace and remove a secret", async function () {
+    await store.set("secretAccessKey", "first");
+    assert.equal(store.get("secretAccessKey"), "first");
+
+    await store.set("secretAccessKey", "second");
+    assert.equal(store.get("secretAccessKey"), "second");
+    assert.isFalse(store.has("sessionToken"));
+
+    // An empty value removes the login
+    await store.set("secretAccessKey", "");
+    assert.isFalse(store.has("secretAccessKey"));
+  });
+
+  it("should keep the secrets of each bucket apart", async function () {
+    await store.set("secretAccessKey", "first-secret");
+    await other.set("secretAccessKey", "second-secret");
+
+    assert.equal(store.get("secretAccessKey"), "first-secret");
+    assert.equal(other.get("secretAccessKey"), "second-secret");
+    // Trailing slashes and whitespace do not change the realm
+    assert.equal(
+      new SecretStore(`${ENDPOINT}/ `, " first-bucket").get("secretAccessKey"),
+      "first-secret",
+    );
+  });
+
+  it("should move plaintext secrets out of the prefs", async function () {
+    setPref("s3.endpoint", ENDPOINT);
+    setPref("s3.bucketName", "first-bucket");
+    setPref("s3.secretAccessKey", " legacy-secret ");
+    const secrets = SecretStore.fromPrefs();
+    assert.isTrue(secrets.hasLegacySecrets());
+
+    await secrets.migrateFromPrefs();
+
+    assert.equal(store.get("secretAccessKey"), "legacy-secret");
+    assert.equal(getPref("s3.secretAccessKey"), "");
+    assert.isFalse(secrets.hasLegacySecrets());
+  });
+});
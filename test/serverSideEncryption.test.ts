@@ -0,0 +1,64 @@
+import { assert } from "chai";
+import { S3EncryptionError } from "../src/modules/s3Errors";
+import { ServerSideEncryption } from "../src/modules/serverSideEncryption";
+
+// 32 bytes of 0x01, base64-encoded
+const CUSTOMER_KEY = btoa(String.fromCharCode(...new Array(32).fill(1)));
+
+describe("ServerSideEncryption", function () {
+  it("should only choose SSE-S3 and SSE-KMS when writing", function () {
+    const sseS3 = new ServerSideEncryption("AES256");
+    assert.deepEqual(sseS3.getHeaders("write"), {
+      "x-amz-server-side-encryption": "AES256",
+    });
+    assert.deepEqual(sseS3.getHeaders("part"), {});
+    assert.deepEqual(sseS3.getHeaders("read"), {});
+
+    const kms = new ServerSideEncryption("aws:kms", "key-id");
+    assert.deepEqual(kms.getHeaders("write"), {
+      "x-amz-server-side-encryption": "aws:kms",
+      "x-amz-server-side-encryption-aws-kms-key-id": "key-id",
+    });
+    assert.deepEqual(kms.getHeaders("read"), {});
+    assert.notProperty(
+      new ServerSideEncryption("aws:kms").getHeaders("write"),
+      "x-amz-server-side-encryption-aws-kms-key-id",
+    );
+  });
+
+  it("should send the SSE-C key with every request", function () {
+    const sseC = new ServerSideEncryption("SSE-C", "", CUSTOMER_KEY);
+
+    for (const usage of ["write", "part", "read"] as const) {
+      const headers = sseC.getHeaders(usage);
+      assert.equal(
+        headers["x-amz-server-side-encryption-customer-algorithm"],
+        "AES256",
+      );
+      assert.equal(
+        headers["x-amz-server-side-encryption-customer-key"],
+        CUSTOMER_KEY,
+      );
+      assert.lengthOf(
+        headers["x-amz-server-side-encryption-customer-key-MD5"],
+        24,
+      );
+    }
+  });
+
+  it("should refuse a missing or malformed SSE-C key", function () {
+    assert.throws(
+      () => new ServerSideEncryption("SSE-C").getHeaders("read"),
+      S3EncryptionError,
+      "No SSE-C key",
+    );
+    assert.throws(
+      () =>
+        new ServerSideEncryption("SSE-C", "", btoa("too short")).getHeaders(
+          "write",
+        ),
+      S3EncryptionError,
+      "256-bit",
+    );
+  });
+});
@@ -0,0 +1,727 @@
+import { assert } from "chai";
+import { config } from "../package.json";
+import { ClientEncryption } from "../src/modules/clientEncryption";
+import { ConnectionWizard } from "../src/modules/connectionWizard";
+import { MemoryS3Backend } from "../src/modules/memoryS3Backend";
+import { S3Manager } from "../src/modules/s3Client";
+import { S3AbortError } from "../src/modules/s3Errors";
+import { SecretStore } from "../src/modules/secretStore";
+import { SyncManager } from "../src/modules/syncManager";
+import { clearPref, setPref } from "../src/utils/prefs";
+
+const ENDPOINT = "http://s3.memory.test";
+const BUCKET = "zotero-sync-test";
+const PREFIX = "zotero-attachments";
+const METADATA_KEY = `${PREFIX}/.zotero-sync-metadata.json`;
+const PROBE_KEY = `${PREFIX}/${S3Manager.PROBE_OBJECT}`;
+
+const TEST_PREFS = [
+  "s3.endpoint",
+  "s3.region",
+  "s3.bucketName",
+  "s3.accessKeyId",
+  "s3.prefix",
+  "s3.addressingStyle",
+  "s3.retryMaxDelay",
+  "s3.connectTimeout",
+  "sync.concurrency",
+  "sync.uploadLimit",
+  "sync.capabilities",
+  "s3.payloadSigning",
+  "sync.incremental",
+  "conflictResolution",
+  "sync.metadata",
+  "s3.objectTagging",
+  "sync.clientEncryption",
+];
+
+describe("syncAttachments", function () {
+  this.timeout(60000);
+
+  const backend = new MemoryS3Backend(BUCKET);
+  const secrets = new SecretStore(ENDPOINT, BUCKET);
+  let attachments: any[] = [];
+
+  before(async function () {
+    // Source modules expect the globals of the plugin sandbox
+    const plugin = (Zotero as any)[config.addonInstance];
+    Object.assign(globalThis, {
+      addon: plugin,
+      ztoolkit: plugin.data.ztoolkit,
+    });
+
+    setPref("s3.endpoint", ENDPOINT);
+    setPref("s3.region", "us-east-1");
+    setPref("s3.bucketName", BUCKET);
+    setPref("s3.accessKeyId", "test-access-key");
+    setPref("s3.prefix", PREFIX);
+    setPref("s3.addressingStyle", "path");
+    setPref("s3.retryMaxDelay", 0);
+    setPref("s3.connectTimeout", 1);
+    setPref("sync.incremental", false);
+    await secrets.set("secretAccessKey", "test-secret-key");
+  });
+
+  after(function () {
+    TEST_PREFS.forEach((key) => clearPref(key));
+    secrets.remove("secretAccessKey");
+  });
+
+  beforeEach(function () {
+    backend.reset();
+    clearPref("sync.metadata");
+    setPref("conflictResolution", "local-wins");
+    setPref("sync.concurrency", 3);
+    clearPref("sync.uploadLimit");
+    clearPref("sync.capabilities");
+    clearPref("s3.payloadSigning");
+    clearPref("s3.objectTagging");
+    clearPref("sync.clientEncryption");
+  });
+
+  afterEach(async function () {
+    await Zotero.Items.erase(attachments.map((item) => item.id));
+    attachments = [];
+  });
+
+  function createManager(): SyncManager {
+    return new SyncManager(new S3Manager(backend));
+  }
+
+  /**
+   * Each sync runs with a fresh manager, as after a restart
+   */
+  async function sync(manager = createManager()): Promise<void> {
+    await manager.syncAttachments();
+  }
+
+  async function createAttachment(name: string, content: string) {
+    const tempPath = PathUtils.join(PathUtils.tempDir, name);
+    await IOUtils.writeUTF8(tempPath, content);
+    const item = await Zotero.Attachments.importFromFile({ file: tempPath });
+    await IOUtils.remove(tempPath);
+    attachments.push(item);
+    return item;
+  }
+
+  function remoteText(item: any): string | null {
+    const object = backend.getObject(`${PREFIX}/${item.key}`);
+    return object ? new TextDecoder().decode(object.body) : null;
+  }
+
+  /**
+   * Replace an object as another device would, with its MD5 in the metadata
+   */
+  function editRemote(item: any, content: string): void {
+    const object = backend.putObject(`${PREFIX}/${item.key}`, content, {
+      contentType: "text/plain",
+      lastModified: Date.now() + 60000,
+    });
+    object.metadata.md5 = object.etag;
+  }
+
+  function countRequests(method: string, key?: string): number {
+    return backend.requests.filter(
+      (request) =>
+        request.method === method && (key === undefined || request.key === key),
+    ).length;
+  }
+
+  it("should upload local attachments on the first sync", async function () {
+    const first = await createAttachment("first.txt", "first attachment");
+    const second = await createAttachment("second.txt", "second attachment");
+
+    await sync();
+
+    assert.equal(remoteText(first), "first attachment");
+    assert.equal(remoteText(second), "second attachment");
+    assert.isDefined(backend.getObject(METADATA_KEY));
+    // The sync records are created with a conditional write
+    const metadataPut = backend.requests.find(
+      (request) => request.method === "PUT" && request.key === METADATA_KEY,
+    );
+    assert.equal(metadataPut?.headers["if-none-match"], "*");
+  });
+
+  it("should record uploads from the response without a HEAD", async function () {
+    const item = await createAttachment("recorded.txt", "recorded");
+
+    await sync();
+
+    assert.equal(countRequests("HEAD"), 0);
+    const records = JSON.parse(
+      new TextDecoder().decode(backend.getObject(METADATA_KEY)!.body),
+    );
+    const object = backend.getObject(`${PREFIX}/${item.key}`)!;
+    assert.equal(records.files[item.key].remoteEtag, object.etag);
+    assert.equal(records.files[item.key].remoteSize, object.body.length);
+  });
+
+  it("should not transfer anything when nothing changed", async function () {
+    await createAttachment("unchanged.txt", "unchanged");
+    await sync();
+    backend.requests.length = 0;
+
+    await sync();
+
+    assert.equal(countRequests("PUT"), 0);
+    assert.equal(countRequests("POST"), 0);
+    assert.equal(countRequests("DELETE"), 0);
+  });
+
+  it("should download a file that changed remotely", async function () {
+    const item = await createAttachment("remote.txt", "original");
+    await sync();
+
+    editRemote(item, "edited on another device");
+    await sync();
+
+    assert.equal(
+      await IOUtils.readUTF8(await item.getFilePathAsync()),
+      "edited on another device",
+    );
+  });
+
+  it("should only request metadata for objects that differ from the sync records", async function () {
+    const edited = await createAttachment("head-edited.txt", "original");
+    const unchanged = await createAttachment("head-unchanged.txt", "unchanged");
+    await sync();
+    backend.requests.length = 0;
+
+    editRemote(edited, "edited on another device");
+    await sync();
+
+    assert.equal(countRequests("HEAD", `${PREFIX}/${unchanged.key}`), 0);
+    assert.isAtLeast(countRequests("HEAD", `${PREFIX}/${edited.key}`), 1);
+    assert.equal(
+      await IOUtils.readUTF8(await edited.getFilePathAsync()),
+      "edited on another device",
+    );
+  });
+
+  it("should upload the local file for a conflict with local-wins", async function () {
+    const item = await createAttachment("local-wins.txt", "original");
+    await sync();
+
+    await IOUtils.writeUTF8(await item.getFilePathAsync(), "local edit");
+    editRemote(item, "remote edit");
+    await sync();
+
+    assert.equal(remoteText(item), "local edit");
+    assert.equal(
+      await IOUtils.readUTF8(await item.getFilePathAsync()),
+      "local edit",
+    );
+  });
+
+  it("should download the remote file for a conflict with remote-wins", async function () {
+    setPref("conflictResolution", "remote-wins");
+    const item = await createAttachment("remote-wins.txt", "original");
+    await sync();
+
+    await IOUtils.writeUTF8(await item.getFilePathAsync(), "local edit");
+    editRemote(item, "remote edit");
+    await sync();
+
+    assert.equal(remoteText(item), "remote edit");
+    assert.equal(
+      await IOUtils.readUTF8(await item.getFilePathAsync()),
+      "remote edit",
+    );
+  });
+
+  it("should delete the local file when the object was deleted remotely", async function () {
+    const item = await createAttachment("deleted-remotely.txt", "content");
+    await sync();
+    const filePath = await item.getFilePathAsync();
+
+    backend.deleteObject(`${PREFIX}/${item.key}`);
+    await sync();
+
+    assert.isFalse(await IOUtils.exists(filePath));
+  });
+
+  it("should delete the object when the attachment was deleted locally", async function () {
+    const kept = await createAttachment("kept.txt", "kept");
+    const deleted = await createAttachment("deleted-locally.txt", "deleted");
+    await sync();
+
+    await deleted.eraseTx();
+    attachments = [kept];
+    await sync();
+
+    assert.isNull(remoteText(deleted));
+    assert.equal(remoteText(kept), "kept");
+    assert.equal(countRequests("POST", ""), 1); // One DeleteObjects batch
+  });
+
+  it("should page through listings", async function () {
+    backend.pageSize = 1;
+    await createAttachment("page-1.txt", "one");
+    await createAttachment("page-2.txt", "two");
+    await createAttachment("page-3.txt", "three");
+    await sync();
+    backend.requests.length = 0;
+
+    await sync();
+
+    // A missed page would look like remote deletions
+    for (const item of attachments) {
+      assert.isTrue(await IOUtils.exists(await item.getFilePathAsync()));
+    }
+    const listings = backend.requests.filter((request) =>
+      request.query.includes("list-type=2"),
+    );
+    assert.isAtLeast(listings.length, 4); // Three objects plus the records
+    assert.equal(countRequests("PUT"), 0);
+  });
+
+  it("should page with markers on a gateway without ListObjectsV2", async function () {
+    backend.listObjectsV2 = false;
+    backend.pageSize = 1;
+    await createAttachment("v1-1.txt", "one");
+    await createAttachment("v1-2.txt", "two");
+    await createAttachment("v1-3.txt", "three");
+    await sync();
+    backend.requests.length = 0;
+
+    await sync();
+
+    for (const item of attachments) {
+      assert.isTrue(await IOUtils.exists(await item.getFilePathAsync()));
+    }
+    // The probe result is cached, so V2 is not tried again
+    assert.isFalse(
+      backend.requests.some((request) => request.query.includes("list-type")),
+    );
+    assert.isTrue(
+      backend.requests.some((request) => request.query.includes("marker=")),
+    );
+    assert.equal(countRequests("PUT"), 0);
+  });
+
+  it("should fall back to ListObjects v1 when V2 paging breaks", async function () {
+    await createAttachment("fallback-1.txt", "one");
+    await createAttachment("fallback-2.txt", "two");
+    await sync();
+
+    // The gateway starts ignoring list-type=2 after the probe
+    backend.listObjectsV2 = false;
+    backend.pageSize = 1;
+    backend.requests.length = 0;
+    await sync();
+
+    for (const item of attachments) {
+      assert.isTrue(await IOUtils.exists(await item.getFilePathAsync()));
+      assert.isNotNull(remoteText(item));
+    }
+    assert.isTrue(
+      backend.requests.some((request) => request.query.includes("marker=")),
+    );
+  });
+
+  it("should stream-sign uploads over plain HTTP", async function () {
+    const content = "streamed ".repeat(20000); // Several aws-chunked frames
+    const item = await createAttachment("streamed.txt", content);
+
+    await sync();
+
+    assert.equal(remoteText(item), content);
+    const put = backend.requests.find(
+      (request) =>
+        request.method === "PUT" && request.key === `${PREFIX}/${item.key}`,
+    );
+    assert.equal(
+      put?.headers["x-amz-content-sha256"],
+      "STREAMING-AWS4-HMAC-SHA256-PAYLOAD",
+    );
+    assert.equal(
+      put?.headers["x-amz-decoded-content-length"],
+      String(content.length),
+    );
+  });
+
+  it("should hash the whole payload when signed payloads are configured", async function () {
+    setPref("s3.payloadSigning", "signed");
+    const item = await createAttachment("signed.txt", "signed");
+
+    await sync();
+
+    assert.equal(remoteText(item), "signed");
+    const put = backend.requests.find(
+      (request) =>
+        request.method === "PUT" && request.key === `${PREFIX}/${item.key}`,
+    );
+    assert.match(put?.headers["x-amz-content-sha256"] || "", /^[0-9a-f]{64}$/);
+  });
+
+  it("should retry injected failures", async function () {
+    const item = await createAttachment("flaky.txt", "flaky");
+    const key = `${PREFIX}/${item.key}`;
+    backend.failNext({ method: "PUT", key, status: 503, code: "SlowDown" });
+    backend.failNext({ method: "PUT", key, network: true });
+
+    await sync();
+
+    assert.equal(remoteText(item), "flaky");
+    assert.equal(countRequests("PUT", key), 3);
+  });
+
+  it("should correct the signing time when the clock is skewed", async function () {
+    backend.clockOffset = 2 * 3600 * 1000; // Local clock two hours behind
+    const item = await createAttachment("skewed.txt", "skewed");
+
+    await sync();
+
+    assert.equal(remoteText(item), "skewed");
+    // Only the first request is answered RequestTimeTooSkewed and resent
+    const [first, retry] = backend.requests;
+    assert.deepEqual(
+      [retry.method, retry.key, retry.query],
+      [first.method, first.key, first.query],
+    );
+    assert.notEqual(retry.headers["x-amz-date"], first.headers["x-amz-date"]);
+  });
+
+  it("should merge the sync records after a conflicting write", async function () {
+    await createAttachment("records.txt", "records");
+    backend.failNext({
+      method: "PUT",
+      key: METADATA_KEY,
+      status: 412,
+      code: "PreconditionFailed",
+    });
+
+    await sync();
+
+    assert.equal(countRequests("PUT", METADATA_KEY), 2);
+    assert.isDefined(backend.getObject(METADATA_KEY));
+  });
+
+  it("should keep remote deletions when merging after a conflicting write", async function () {
+    const deleted = await createAttachment("merged-away.txt", "deleted");
+    await sync();
+    await deleted.eraseTx();
+    attachments = [];
+    backend.failNext({
+      method: "PUT",
+      key: METADATA_KEY,
+      status: 412,
+      code: "PreconditionFailed",
+    });
+
+    await sync();
+
+    const records = JSON.parse(
+      new TextDecoder().decode(backend.getObject(METADATA_KEY)!.body),
+    );
+    assert.notProperty(records.files, deleted.key);
+  });
+
+  it("should overwrite the sync records when conditional writes are unsupported", async function () {
+    await createAttachment("unconditional.txt", "unconditional");
+    backend.failNext({
+      method: "PUT",
+      key: METADATA_KEY,
+      status: 501,
+      code: "NotImplemented",
+    });
+
+    await sync();
+
+    const writes = backend.requests.filter(
+      (request) => request.method === "PUT" && request.key === METADATA_KEY,
+    );
+    assert.lengthOf(writes, 2);
+    assert.equal(writes[0].headers["if-none-match"], "*");
+    assert.notProperty(writes[1].headers, "if-none-match");
+    assert.isDefined(backend.getObject(METADATA_KEY));
+  });
+
+  it("should adopt a key check another device created first", async function () {
+    const passphrase = "shared passphrase";
+    const keyCheckKey = `${PREFIX}/${ClientEncryption.KEY_CHECK_FILE}`;
+    const other = await ClientEncryption.create(passphrase);
+    backend.putObject(keyCheckKey, JSON.stringify(other.keyCheck));
+    // The other device's write lands between this device's check and its own
+    backend.failNext({
+      method: "GET",
+      key: keyCheckKey,
+      status: 404,
+      code: "NoSuchKey",
+    });
+    const item = await createAttachment("encrypted.txt", "encrypted");
+    setPref("sync.clientEncryption", true);
+    await secrets.set("encryptionPassphrase", passphrase);
+
+    try {
+      await sync();
+    } finally {
+      secrets.remove("encryptionPassphrase");
+    }
+
+    const stored = backend.getObject(keyCheckKey)!;
+    assert.equal(
+      JSON.parse(new TextDecoder().decode(stored.body)).salt,
+      other.keyCheck.salt,
+    );
+    const object = backend.getObject(`${PREFIX}/${item.key}`)!;
+    assert.equal(
+      new TextDecoder().decode(
+        await other.encryption.decryptBytes(object.body),
+      ),
+      "encrypted",
+    );
+  });
+
+  it("should fail a stalled request after the connect timeout", async function () {
+    const item = await createAttachment("stalled.txt", "stalled");
+    const key = `${PREFIX}/${item.key}`;
+    backend.failNext({ method: "PUT", key, stall: true });
+
+    await sync();
+
+    // The stalled attempt timed out and the retry went through
+    assert.equal(remoteText(item), "stalled");
+    assert.equal(countRequests("PUT", key), 2);
+  });
+
+  it("should share the upload limit between concurrent transfers", async function () {
+    setPref("sync.uploadLimit", 16); // KB/s
+    const content = "x".repeat(16 * 1024);
+    await createAttachment("limited-1.txt", content);
+    await createAttachment("limited-2.txt", content);
+    await createAttachment("limited-3.txt", content);
+
+    const start = Date.now();
+    await sync();
+
+    // 48 KB at 16 KB/s: the third upload waits for the first two to be paid
+    // for, and the sync records wait for all three
+    assert.isAtLeast(Date.now() - start, 1500);
+    for (const item of attachments) {
+      assert.equal(remoteText(item), content);
+    }
+  });
+
+  it("should keep the sync records consistent when cancelled", async function () {
+    setPref("sync.concurrency", 1);
+    const first = await createAttachment("cancel-1.txt", "first");
+    const second = await createAttachment("cancel-2.txt", "second");
+    const manager = createManager();
+    backend.failNext({
+      method: "PUT",
+      key: `${PREFIX}/${second.key}`,
+      stall: true,
+      onRequest: () => manager.cancelSync(),
+    });
+
+    await sync(manager);
+
+    assert.isFalse(manager.isSyncRunning());
+    assert.equal(remoteText(first), "first");
+    assert.isNull(remoteText(second));
+    // The records written after the cancel cover the finished upload only
+    const records = JSON.parse(
+      new TextDecoder().decode(backend.getObject(METADATA_KEY)!.body),
+    );
+    assert.property(records.files, first.key);
+    assert.notProperty(records.files, second.key);
+
+    backend.requests.length = 0;
+    await sync();
+
+    assert.equal(remoteText(second), "second");
+    assert.equal(countRequests("PUT", `${PREFIX}/${first.key}`), 0);
+  });
+
+  it("should list and restore earlier versions of an attachment", async function () {
+    backend.versioning = true;
+    const item = await createAttachment("versions.txt", "first version");
+    await sync();
+    const key = `${PREFIX}/${item.key}`;
+    const second = backend.putObject(key, "second version", {
+      lastModified: Date.now() + 60000,
+    });
+    second.metadata.md5 = second.etag;
+    const manager = createManager();
+
+    backend.requests.length = 0;
+    const versions = await manager.listAttachmentVersions(item.key);
+    assert.deepEqual(
+      versions.map((version) => version.isLatest),
+      [true, false],
+    );
+    assert.equal(versions[0].hash, second.etag);
+    assert.equal(versions[1].size, "first version".length);
+    assert.equal(countRequests("HEAD", key), 2);
+
+    await manager.restoreAttachmentVersion(item.key, versions[1].versionId);
+    assert.equal(
+      await IOUtils.readUTF8((await item.getFilePathAsync()) as string),
+      "first version",
+    );
+  });
+
+  /**
+   * Run a test with an attachment in a temporary editable group library
+   */
+  async function withGroupAttachment(
+    content: string,
+    test: (group: Zotero.Group, item: Zotero.Item) => Promise<void>,
+  ): Promise<void> {
+    const group = new Zotero.Group({
+      groupID: 86420,
+      name: "S3 Sync test group",
+      description: "",
+      version: 1,
+    });
+    group.editable = true;
+    group.filesEditable = true;
+    group.archived = false;
+    await group.saveTx();
+
+    try {
+      const tempPath = PathUtils.join(PathUtils.tempDir, "group.txt");
+      await IOUtils.writeUTF8(tempPath, content);
+      const item = await Zotero.Attachments.importFromFile({
+        file: tempPath,
+        libraryID: group.libraryID,
+      });
+      // Erased together with the group
+      await IOUtils.remove(tempPath);
+      await test(group, item);
+    } finally {
+      await group.eraseTx();
+    }
+  }
+
+  it("should restore versions of group library attachments", async function () {
+    backend.versioning = true;
+    await withGroupAttachment("first version", async (group, item) => {
+      const manager = createManager();
+      await sync(manager);
+      backend.putObject(`${PREFIX}/${item.key}`, "second version");
+
+      const versions = await manager.listAttachmentVersions(item.key);
+      await manager.restoreAttachmentVersion(item.key, versions[1].versionId);
+      assert.equal(
+        await IOUtils.readUTF8((await item.getFilePathAsync()) as string),
+        "first version",
+      );
+    });
+  });
+
+  it("should re-tag attachments of group libraries", async function () {
+    setPref("s3.objectTagging", true);
+    await withGroupAttachment("group attachment", async (group, item) => {
+      const manager = createManager();
+      await sync(manager);
+      item.setField("title", "Renamed in the group");
+      await item.saveTx();
+      await manager.updateObjectTags(item.key);
+
+      const tags = new URLSearchParams(
+        backend.getObject(`${PREFIX}/${item.key}`)?.tags,
+      );
+      assert.equal(tags.get("zotero-library"), String(group.libraryID));
+      assert.equal(tags.get("zotero-title"), "Renamed in the group");
+    });
+  });
+
+  describe("ConnectionWizard", function () {
+    async function runWizard(): Promise<ConnectionWizard> {
+      const wizard = new ConnectionWizard(new S3Manager(backend), PREFIX, {
+        confirmCreateBucket: () => false,
+      });
+      await wizard.run();
+      return wizard;
+    }
+
+    it("should pass every check with full permissions", async function () {
+      const wizard = await runWizard();
+
+      assert.deepEqual(
+        wizard.checks.map((check) => `${check.status} ${check.permission}`),
+        [
+          "pass s3:GetBucketLocation",
+          "pass s3:ListBucket",
+          "pass s3:PutObject",
+          "pass s3:GetObject",
+          "pass s3:GetObject",
+          "pass s3:DeleteObject",
+        ],
+      );
+      assert.equal(wizard.failures, 0);
+      assert.isUndefined(backend.getObject(PROBE_KEY));
+      assert.include(wizard.formatReport(), "Result: all checks passed");
+      // The capability probe reuses the test object: the upload, the
+      // If-None-Match attempt and the streaming payload check
+      assert.equal(countRequests("PUT", PROBE_KEY), 3);
+      assert.equal(countRequests("DELETE", PROBE_KEY), 1); // Multipart abort
+    });
+
+    it("should skip the object checks when uploads are denied", async function () {
+      backend.failNext({
+        method: "PUT",
+        key: PROBE_KEY,
+        status: 403,
+        code: "AccessDenied",
+      });
+
+      const wizard = await runWizard();
+
+      assert.deepEqual(
+        wizard.checks.map((check) => check.status),
+        ["pass", "pass", "fail", "skip", "skip", "skip"],
+      );
+      assert.include(
+        wizard.formatReport(),
+        "[FAIL] Upload object (s3:PutObject): AccessDenied",
+      );
+    });
+
+    it("should report a bucket in a different region", async function () {
+      backend.region = "eu-central-1";
+
+      const wizard = await runWizard();
+
+      assert.equal(wizard.checks[0].status, "fail");
+      assert.include(wizard.checks[0].detail, "eu-central-1");
+      assert.equal(wizard.failures, 1);
+    });
+
+    it("should share the probed capabilities with existing managers", async function () {
+      const syncS3Manager = new S3Manager(backend);
+      assert.isNull(syncS3Manager.getCapabilities());
+      backend.versioning = true;
+
+      await runWizard();
+
+      assert.isTrue(syncS3Manager.getCapabilities()?.versioning);
+    });
+
+    it("should remove the test object when cancelled", async function () {
+      const controller = new AbortController();
+      const wizard = new ConnectionWizard(new S3Manager(backend), PREFIX, {
+        confirmCreateBucket: () => false,
+        onCheck: (check) => {
+          if (check.permission === "s3:PutObject") {
+            controller.abort();
+          }
+        },
+      });
+
+      let cancelled = false;
+      try {
+        await wizard.run(controller.signal);
+      } catch (error) {
+        cancelled = error instanceof S3AbortError;
+      }
+
+      assert.isTrue(cancelled);
+      assert.equal(wizard.checks.length, 3);
+      assert.isUndefined(backend.getObject(PROBE_KEY));
+    });
+  });
+});
@@ -9,6 +9,10 @@ export type FluentMessageId =
   | 'item-section-example2-button-tooltip'
   | 'item-section-example2-head-text'
   | 'item-section-example2-sidenav-tooltip'
+  | 'item-section-s3-versions-head-text'
+  | 'item-section-s3-versions-sidenav-tooltip'
+  | 'menuitem-cancel-sync-s3'
+  | 'menuitem-copy-share-link'
   | 'menuitem-filemenulabel'
   | 'menuitem-label'
   | 'menuitem-s3-settings'
@@ -16,25 +20,81 @@ export type FluentMessageId =
   | 'menuitem-sync-s3'
   | 'menupopup-label'
   | 'pref-auto-sync'
+  | 'pref-client-encryption'
+  | 'pref-compression'
+  | 'pref-compression-types'
+  | 'pref-conditional-writes'
   | 'pref-conflict-resolution'
+  | 'pref-connect-timeout'
+  | 'pref-download-limit'
+  | 'pref-encryption-passphrase'
   | 'pref-help'
+  | 'pref-idle-timeout'
   | 'pref-incremental-max-days'
   | 'pref-incremental-sync'
+  | 'pref-limit-schedule'
+  | 'pref-multipart-part-size'
+  | 'pref-multipart-threshold'
+  | 'pref-payload-signing'
+  | 'pref-retry-max-attempts'
+  | 'pref-retry-max-delay'
   | 'pref-s3-access-key'
+  | 'pref-s3-addressing-style'
+  | 'pref-s3-aws-profile'
   | 'pref-s3-bucket'
+  | 'pref-s3-credential-file'
+  | 'pref-s3-credential-source'
+  | 'pref-s3-credential-url'
   | 'pref-s3-endpoint'
+  | 'pref-s3-object-tagging'
   | 'pref-s3-prefix'
   | 'pref-s3-region'
+  | 'pref-s3-restore-days'
   | 'pref-s3-secret-key'
+  | 'pref-s3-session-token'
+  | 'pref-s3-sse-customer-key'
+  | 'pref-s3-sse-kms-key-id'
+  | 'pref-s3-sse-mode'
+  | 'pref-s3-storage-class'
+  | 'pref-s3-storage-class-rules'
   | 'pref-s3-title'
+  | 'pref-scheduled-download-limit'
+  | 'pref-scheduled-upload-limit'
+  | 'pref-secret-clear'
+  | 'pref-secret-not-saved'
+  | 'pref-secret-saved'
+  | 'pref-secret-set'
+  | 'pref-share-link-expiry'
   | 'pref-sync-concurrency'
   | 'pref-sync-title'
   | 'pref-test-connection'
   | 'pref-title'
+  | 'pref-upload-limit'
   | 'prefs-table-detail'
   | 'prefs-table-title'
   | 'prefs-title'
   | 'startup-begin'
   | 'startup-finish'
   | 'tabpanel-lib-tab-label'
-  | 'tabpanel-reader-tab-label';
+  | 'tabpanel-reader-tab-label'
+  | 'versions-deleted'
+  | 'versions-empty'
+  | 'versions-error'
+  | 'versions-latest'
+  | 'versions-loading'
+  | 'versions-restore'
+  | 'versions-restore-confirm'
+  | 'versions-restore-done'
+  | 'versions-save-copy'
+  | 'versions-save-done'
+  | 'versions-show'
+  | 'versions-title'
+  | 'versions-unversioned'
+  | 'wizard-close'
+  | 'wizard-copy-report'
+  | 'wizard-create-bucket'
+  | 'wizard-failed'
+  | 'wizard-not-configured'
+  | 'wizard-passed'
+  | 'wizard-running'
+  | 'wizard-title';
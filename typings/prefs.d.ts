@@ -13,14 +13,45 @@ declare namespace _ZoteroTypes {
       "s3.region": string;
       "s3.accessKeyId": string;
       "s3.secretAccessKey": string;
+      "s3.sessionToken": string;
+      "s3.credentialSource": string;
+      "s3.awsProfile": string;
+      "s3.credentialFile": string;
+      "s3.credentialUrl": string;
       "s3.bucketName": string;
       "s3.prefix": string;
+      "s3.addressingStyle": string;
+      "s3.sseMode": string;
+      "s3.sseKmsKeyId": string;
+      "s3.storageClass": string;
+      "s3.storageClassRules": string;
+      "s3.restoreDays": number;
+      "s3.restoreTier": string;
+      "s3.objectTagging": boolean;
+      "s3.retryMaxAttempts": number;
+      "s3.retryMaxDelay": number;
+      "s3.connectTimeout": number;
+      "s3.idleTimeout": number;
+      "s3.conditionalWrites": boolean;
+      "s3.payloadSigning": string;
+      "s3.shareLinkExpiry": number;
       "sync.autoSync": boolean;
       "sync.syncInterval": number;
       "conflictResolution": string;
       "sync.incremental": boolean;
       "sync.incrementalMaxDays": number;
       "sync.concurrency": number;
+      "sync.uploadLimit": number;
+      "sync.downloadLimit": number;
+      "sync.limitSchedule": string;
+      "sync.scheduledUploadLimit": number;
+      "sync.scheduledDownloadLimit": number;
+      "sync.clientEncryption": boolean;
+      "sync.compression": string;
+      "sync.compressionTypes": string;
+      "s3.multipartThreshold": number;
+      "s3.multipartPartSize": number;
+      "s3.downloadChunkSize": number;
     };
   }
 }